@@ -2,11 +2,39 @@ import { z } from "zod";
 import type {
   AnySchema,
   BuildOptions,
+  CanonicalOrder,
   CleanOptions,
+  Codec,
+  NestedFormat,
   ParseOptions,
   DebouncedFunction,
+  LengthStrategy,
+  SafeParseQueryResult,
+  Serializer,
+  SortEntry,
+  UrlFitResult,
 } from "./types";
 import { resolveArraySerializer } from "./serializers";
+import { decodePackedState, encodePackedState } from "./pack";
+import {
+  getArrayElementType,
+  getDefaultValue,
+  getEnumValues,
+  getInnerType,
+  getKind,
+  getLiteralValues,
+  getObjectShape,
+  getRangeBound,
+  getSchemaShape,
+  getSortFields,
+  getUnionOptions,
+  isArrayType,
+  isNullableType,
+  isObjectType,
+} from "./introspect";
+
+export const DEFAULT_PACK_PARAM = "_s";
+export const DEFAULT_VERSION_PARAM = "v";
 
 function isEmpty(val: unknown) {
   return (
@@ -16,6 +44,10 @@ function isEmpty(val: unknown) {
   );
 }
 
+function isPlainObject(val: unknown): val is Record<string, any> {
+  return Object.prototype.toString.call(val) === "[object Object]";
+}
+
 export function debounce<T extends (...args: any[]) => any>(
   func: T,
   wait: number = 300
@@ -90,47 +122,69 @@ export function cleanObject<T extends Record<string, any>>(
   return out;
 }
 
-function getInnerType(zodType: z.ZodTypeAny): z.ZodTypeAny {
-
-  if ((zodType as any)._def?.innerType) {
-    return getInnerType((zodType as any)._def.innerType);
+export function isEqualValue(a: unknown, b: unknown): boolean {
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => isEqualValue(v, b[i]));
   }
-  if ((zodType as any)._def?.schema) {
-    return getInnerType((zodType as any)._def.schema);
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const defined = (o: Record<string, any>) =>
+      Object.keys(o).filter((k) => o[k] !== undefined);
+    const keys = defined(a);
+    return (
+      keys.length === defined(b).length &&
+      keys.every((k) => isEqualValue(a[k], b[k]))
+    );
   }
-  return zodType;
-}
-
-function isArrayType(zodType: z.ZodTypeAny): boolean {
-  const inner = getInnerType(zodType);
-  return (inner as any)._def?.typeName === "ZodArray";
-}
-
-function getArrayElementType(zodType: z.ZodTypeAny): z.ZodTypeAny {
-  const inner = getInnerType(zodType);
-  return (inner as any)._def?.type;
+  return Object.is(a, b);
 }
 
 function coerceValue(expected: z.ZodTypeAny, value: string): any {
+  if (value === "null" && isNullableType(expected)) return null;
+
   const inner = getInnerType(expected);
-  const typeName = (inner as any)._def?.typeName;
 
-  switch (typeName) {
-    case "ZodNumber": {
+  switch (getKind(inner)) {
+    case "number": {
       const n = Number(value);
       return Number.isFinite(n) ? n : value;
     }
-    case "ZodBoolean": {
+    case "bigint": {
+      try {
+        return BigInt(value);
+      } catch {
+        return value;
+      }
+    }
+    case "literal": {
+      const match = getLiteralValues(inner).find((v) => String(v) === value);
+      return match !== undefined ? match : value;
+    }
+    case "null": {
+      return value === "null" ? null : value;
+    }
+    case "enum": {
+      const match = getEnumValues(inner).find((v) => String(v) === value);
+      return match ?? value;
+    }
+    case "union": {
+      for (const option of getUnionOptions(inner)) {
+        const coerced = coerceValue(option, value);
+        if (option.safeParse(coerced).success) return coerced;
+      }
+      return value;
+    }
+    case "boolean": {
       const v = value.toLowerCase();
       if (["1", "true", "yes"].includes(v)) return true;
       if (["0", "false", "no"].includes(v)) return false;
       return value;
     }
-    case "ZodDate": {
+    case "date": {
       const d = new Date(value);
       return isNaN(d.getTime()) ? value : d;
     }
-    case "ZodArray": {
+    case "array": {
       return value;
     }
     default:
@@ -138,57 +192,492 @@ function coerceValue(expected: z.ZodTypeAny, value: string): any {
   }
 }
 
+function nestedKey(
+  parentKey: string,
+  key: string,
+  format: NestedFormat = "bracket"
+): string {
+  return format === "dot" ? `${parentKey}.${key}` : `${parentKey}[${key}]`;
+}
+
+function fieldKeys(
+  field: string,
+  options: ParseOptions<any>,
+  parentKey?: string
+): string[] {
+  if (parentKey) return [nestedKey(parentKey, field, options.nestedFormat)];
+  const alias = options.keyAliases?.[field];
+  const keys =
+    !alias || alias.length === 0
+      ? [field]
+      : typeof alias === "string"
+        ? [alias]
+        : [...alias];
+  return options.namespace
+    ? keys.map((key) => `${options.namespace}.${key}`)
+    : keys;
+}
+
+function packKey(options: ParseOptions<any>): string {
+  const param =
+    (typeof options.pack === "object" && options.pack.param) ||
+    DEFAULT_PACK_PARAM;
+  return options.namespace ? `${options.namespace}.${param}` : param;
+}
+
+function versionKey(options: ParseOptions<any>): string {
+  const param = options.version?.param || DEFAULT_VERSION_PARAM;
+  return options.namespace ? `${options.namespace}.${param}` : param;
+}
+
+function toSearchParams(input: string | URLSearchParams): URLSearchParams {
+  return typeof input === "string"
+    ? new URLSearchParams(input.startsWith("?") ? input.slice(1) : input)
+    : input;
+}
+
+export function getQueryVersion(
+  input: string | URLSearchParams,
+  options: ParseOptions<any>
+): number | undefined {
+  if (!options.version) return undefined;
+  const raw = toSearchParams(input).get(versionKey(options));
+  const version = raw === null ? NaN : Number(raw);
+  return Number.isInteger(version) ? version : 1;
+}
+
+function readPackedEntries(value: string): [string, string][] {
+  try {
+    return [...new URLSearchParams(decodePackedState(value))];
+  } catch {
+    return [];
+  }
+}
+
+function stripNamespace(key: string, namespace?: string): string | undefined {
+  if (!namespace) return key;
+  return key.startsWith(`${namespace}.`)
+    ? key.slice(namespace.length + 1)
+    : undefined;
+}
+
+function withoutNamespace(baseUrl: string, namespace: string): string {
+  const index = baseUrl.indexOf("?");
+  if (index === -1) return baseUrl;
+  const params = new URLSearchParams(baseUrl.slice(index + 1));
+  for (const key of [...params.keys()]) {
+    if (stripNamespace(key, namespace) !== undefined) params.delete(key);
+  }
+  const rest = params.toString();
+  return rest ? `${baseUrl.slice(0, index)}?${rest}` : baseUrl.slice(0, index);
+}
+
+function encodeValue(value: unknown, options: BuildOptions<any>): string {
+  return value instanceof Date && options.encodeDate
+    ? value.toISOString()
+    : String(value as any);
+}
+
+function matchArrayKeys(
+  ser: Serializer,
+  key: string,
+  entriesByKey: Map<string, string[]>
+): string[] {
+  if (!ser.matchKey) return entriesByKey.has(key) ? [key] : [];
+  return [...entriesByKey.keys()]
+    .filter((urlKey) => ser.matchKey!(key, urlKey))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+}
+
+function readArray(
+  ser: Serializer,
+  key: string,
+  entries: string[],
+  expected: z.ZodTypeAny,
+  options: ParseOptions<any>
+): unknown {
+  let items: unknown[];
+  try {
+    items = ser.deserializeArray!(key, entries);
+  } catch {
+    return entries[entries.length - 1];
+  }
+  const inner = getArrayElementType(expected);
+  return items.map((val) => {
+    const s = String(val);
+    return options.coerceTypes ? coerceValue(inner, s) : s;
+  });
+}
+
+function readRange(
+  bound: z.ZodTypeAny,
+  raw: string,
+  options: ParseOptions<any>
+): unknown {
+  const index = raw.indexOf("..");
+  if (index === -1) return raw;
+  const range: Record<string, unknown> = {};
+  const min = raw.slice(0, index);
+  const max = raw.slice(index + 2);
+  if (min) range.min = options.coerceTypes ? coerceValue(bound, min) : min;
+  if (max) range.max = options.coerceTypes ? coerceValue(bound, max) : max;
+  return range;
+}
+
+function decodeValue(codec: Codec, raw: string): unknown {
+  try {
+    return codec.decode(raw);
+  } catch {
+    return raw;
+  }
+}
+
+function readSort(raw: string): SortEntry[] {
+  return raw
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) =>
+      part.startsWith("-")
+        ? { field: part.slice(1), dir: "desc" }
+        : { field: part.replace(/^\+/, ""), dir: "asc" }
+    );
+}
+
+function readShape(
+  shape: Record<string, z.ZodTypeAny>,
+  entriesByKey: Map<string, string[]>,
+  consumed: Set<string>,
+  options: ParseOptions<any>,
+  parentKey?: string
+): Record<string, any> {
+  const out: Record<string, any> = {};
+
+  for (const [field, expected] of Object.entries(shape)) {
+    const keys = fieldKeys(field, options, parentKey);
+    const codec = parentKey ? undefined : options.codecs?.[field];
+
+    if (codec) {
+      const key = keys.find((k) => entriesByKey.has(k));
+      if (key === undefined) continue;
+      for (const k of keys) consumed.add(k);
+      const entries = entriesByKey.get(key)!;
+      out[field] = decodeValue(codec, entries[entries.length - 1]);
+      continue;
+    }
+
+    const bound = getRangeBound(expected);
+    if (bound) {
+      const key = keys.find((k) => entriesByKey.has(k));
+      if (key === undefined) continue;
+      for (const k of keys) consumed.add(k);
+      const entries = entriesByKey.get(key)!;
+      out[field] = readRange(bound, entries[entries.length - 1], options);
+      continue;
+    }
+
+    if (getSortFields(expected)) {
+      const key = keys.find((k) => entriesByKey.has(k));
+      if (key === undefined) continue;
+      for (const k of keys) consumed.add(k);
+      const entries = entriesByKey.get(key)!;
+      out[field] = readSort(entries[entries.length - 1]);
+      continue;
+    }
+
+    if (isObjectType(expected)) {
+      for (const key of keys) {
+        const nested = cleanObject(
+          readShape(getObjectShape(expected), entriesByKey, consumed, options, key),
+          { dropEmpty: options.dropEmpty, trimStrings: options.trimStrings }
+        );
+        if (Object.keys(nested).length > 0) {
+          out[field] = nested;
+          break;
+        }
+      }
+      continue;
+    }
+
+    if (isArrayType(expected)) {
+      const ser = resolveArraySerializer(
+        (!parentKey && options.arrayKeyFormat?.[field]) ||
+          options.arrayFormat ||
+          "repeat"
+      );
+      for (const key of keys) {
+        const urlKeys = matchArrayKeys(ser, key, entriesByKey);
+        if (urlKeys.length === 0) continue;
+        for (const k of [...keys, ...urlKeys]) consumed.add(k);
+        const entries = urlKeys.flatMap((k) => entriesByKey.get(k)!);
+        out[field] = readArray(ser, key, entries, expected, options);
+        break;
+      }
+      continue;
+    }
+
+    const key = keys.find((k) => entriesByKey.has(k));
+    if (key === undefined) continue;
+    const entries = entriesByKey.get(key)!;
+    for (const k of keys) consumed.add(k);
+
+    const raw = entries[entries.length - 1];
+    out[field] = options.coerceTypes ? coerceValue(expected, raw) : raw;
+  }
+
+  return out;
+}
+
+export function migrateQuery(
+  input: string | URLSearchParams,
+  options: ParseOptions<any> = {}
+): URLSearchParams {
+  const packed = packKey(options);
+  let params = new URLSearchParams();
+  for (const [k, v] of toSearchParams(input).entries()) {
+    if (k !== packed) {
+      params.append(k, v);
+      continue;
+    }
+    for (const [pk, pv] of readPackedEntries(v)) params.append(pk, pv);
+  }
+
+  const { version } = options;
+  if (!version) return params;
+  for (let v = getQueryVersion(params, options)!; v < version.current; v++) {
+    params = version.migrations?.[v]?.(params) ?? params;
+  }
+  params.delete(versionKey(options));
+  return params;
+}
+
+function readQuery<TSchema extends AnySchema>(
+  schema: TSchema,
+  input: string | URLSearchParams,
+  options: ParseOptions<TSchema>
+): Record<string, any> {
+  const entriesByKey = new Map<string, string[]>();
+  for (const [k, v] of migrateQuery(input, options)) {
+    if (!entriesByKey.has(k)) entriesByKey.set(k, []);
+    entriesByKey.get(k)!.push(v);
+  }
+
+  const shape = getSchemaShape(schema, (field) => {
+    const key = fieldKeys(field, options).find((k) => entriesByKey.has(k));
+    if (key === undefined) return undefined;
+    const entries = entriesByKey.get(key)!;
+    return entries[entries.length - 1];
+  });
+
+  const consumed = new Set<string>();
+  const interim = readShape(shape, entriesByKey, consumed, options);
+
+  if (!options.stripUnknown) {
+    for (const [key, entries] of entriesByKey) {
+      if (consumed.has(key)) continue;
+      const name = stripNamespace(key, options.namespace);
+      if (name === undefined || name in interim) continue;
+      interim[name] = entries.length > 1 ? entries : entries[0];
+    }
+  }
+
+  return cleanObject(interim, {
+    dropEmpty: options.dropEmpty,
+    trimStrings: options.trimStrings,
+  });
+}
+
+function dropIssuePath(
+  values: Record<string, any>,
+  path: (string | number)[]
+): string | undefined {
+  let parent: Record<string, any> | undefined;
+  let target: unknown = values;
+  const walked: string[] = [];
+
+  for (const segment of path) {
+    const key = String(segment);
+    if (!isPlainObject(target) || !(key in target)) break;
+    parent = target;
+    walked.push(key);
+    target = target[key];
+  }
+
+  if (!parent) return undefined;
+  delete parent[walked[walked.length - 1]];
+  return walked.join(".");
+}
+
 export function parseQuery<TSchema extends AnySchema>(
   schema: TSchema,
   input: string | URLSearchParams,
   options: ParseOptions<TSchema> = {}
 ): z.infer<TSchema> {
-  const sp =
-    typeof input === "string"
-      ? new URLSearchParams(input.startsWith("?") ? input.slice(1) : input)
-      : input;
-  const shape: Record<string, z.ZodTypeAny> = (schema as any).shape || {};
+  return schema.parse(readQuery(schema, input, options));
+}
 
-  const interim: Record<string, any> = {};
-  const entriesByKey = new Map<string, string[]>();
-  for (const [k, v] of sp.entries()) {
-    if (!entriesByKey.has(k)) entriesByKey.set(k, []);
-    entriesByKey.get(k)!.push(v);
+export function safeParseQuery<TSchema extends AnySchema>(
+  schema: TSchema,
+  input: string | URLSearchParams,
+  options: ParseOptions<TSchema> = {}
+): SafeParseQueryResult<TSchema> {
+  const values = readQuery(schema, input, options);
+  const errors: z.ZodIssue[] = [];
+  const droppedKeys: string[] = [];
+
+  for (;;) {
+    const result = schema.safeParse(values);
+    if (result.success) {
+      return { data: result.data, partial: result.data, errors, droppedKeys };
+    }
+
+    const dropped = new Set<string>();
+    for (const issue of result.error.issues) {
+      const path = dropIssuePath(values, issue.path);
+      if (path === undefined) continue;
+      dropped.add(path);
+      errors.push(issue);
+    }
+    if (dropped.size === 0) {
+      errors.push(...result.error.issues);
+      return {
+        data: undefined,
+        partial: recoverFields(schema, values),
+        errors,
+        droppedKeys,
+      };
+    }
+
+    droppedKeys.push(...dropped);
   }
+}
 
-  for (const [key, entries] of entriesByKey) {
-    const expected = shape[key];
+function recoverFields(
+  schema: AnySchema,
+  values: Record<string, any>
+): Record<string, any> {
+  const shape = getSchemaShape(schema, (key) => values[key]);
+  const out: Record<string, any> = {};
+  for (const [field, expected] of Object.entries(shape)) {
+    const result = expected.safeParse(values[field]);
+    if (result.success && result.data !== undefined) out[field] = result.data;
+  }
+  return out;
+}
+
+function writeShape(
+  params: URLSearchParams,
+  shape: Record<string, z.ZodTypeAny>,
+  values: Record<string, any>,
+  options: BuildOptions<any>,
+  parentKey?: string
+): void {
+  for (const [field, value] of Object.entries(values)) {
+    const key = fieldKeys(field, options, parentKey)[0];
+    const expected = shape[field];
     if (!expected) {
-      if (!options.stripUnknown)
-        interim[key] = entries.length > 1 ? entries : entries[0];
+      if (!options.stripUnknown && value !== undefined)
+        params.set(key, String(value as any));
       continue;
     }
 
-    if (isArrayType(expected)) {
-      const inner = getArrayElementType(expected);
+    if (options.omitDefaults) {
+      const fallback = getDefaultValue(expected);
+      if (fallback && isEqualValue(value, fallback.value)) continue;
+    }
+
+    const codec = parentKey ? undefined : options.codecs?.[field];
+    if (codec) {
+      params.set(key, codec.encode(value));
+      continue;
+    }
+
+    if (getRangeBound(expected) && isPlainObject(value)) {
+      const { min, max } = value;
+      if (!isEmpty(min) || !isEmpty(max)) {
+        const from = isEmpty(min) ? "" : encodeValue(min, options);
+        const to = isEmpty(max) ? "" : encodeValue(max, options);
+        params.set(key, `${from}..${to}`);
+      }
+      continue;
+    }
+
+    if (getSortFields(expected) && Array.isArray(value)) {
+      const sort = value
+        .map((entry: SortEntry) =>
+          entry.dir === "desc" ? `-${entry.field}` : entry.field
+        )
+        .join(",");
+      if (sort) params.set(key, sort);
+      continue;
+    }
+
+    if (isObjectType(expected) && isPlainObject(value)) {
+      const nested = cleanObject(value, {
+        dropEmpty: options.dropEmpty,
+        trimStrings: options.trimStrings,
+      });
+      writeShape(params, getObjectShape(expected), nested, options, key);
+      continue;
+    }
+
+    if (isArrayType(expected) && Array.isArray(value)) {
       const fmt =
-        options.arrayKeyFormat?.[key as keyof z.infer<TSchema> & string] ||
+        (!parentKey && options.arrayKeyFormat?.[field]) ||
         options.arrayFormat ||
         "repeat";
       const ser = resolveArraySerializer(fmt);
-      const arr = ser.deserializeArray!(key, entries).map((val) => {
-        const s = String(val);
-        return options.coerceTypes ? coerceValue(inner, s) : s;
-      });
-      interim[key] = arr;
+      const items = value.map((v) => encodeValue(v, options));
+      for (const [k, v] of ser.serializeArray!(key, items)) params.append(k, v);
       continue;
     }
 
-    const raw = entries[entries.length - 1];
-    const val = options.coerceTypes ? coerceValue(expected, raw) : raw;
-    interim[key] = val;
+    params.set(key, encodeValue(value, options));
   }
+}
 
-  const cleaned = cleanObject(interim, {
-    dropEmpty: options.dropEmpty,
-    trimStrings: options.trimStrings,
-  });
-  return schema.parse(cleaned);
+function compareValues(a: unknown, b: unknown): number {
+  const x = a instanceof Date ? a.getTime() : a;
+  const y = b instanceof Date ? b.getTime() : b;
+  if (typeof x === "number" && typeof y === "number") return x - y;
+  const sx = String(x);
+  const sy = String(y);
+  return sx < sy ? -1 : sx > sy ? 1 : 0;
+}
+
+function canonicalValues(
+  shape: Record<string, z.ZodTypeAny>,
+  values: Record<string, any>,
+  order: CanonicalOrder,
+  setKeys: readonly string[]
+): Record<string, any> {
+  const fields = Object.keys(shape);
+  const rank = (key: string) =>
+    order === "alpha" || !fields.includes(key)
+      ? fields.length
+      : fields.indexOf(key);
+  const keys = Object.keys(values).sort(
+    (a, b) => rank(a) - rank(b) || compareValues(a, b)
+  );
+
+  const out: Record<string, any> = {};
+  for (const key of keys) {
+    const value = values[key];
+    const expected = shape[key];
+    if (Array.isArray(value) && setKeys.includes(key)) {
+      out[key] = [...value].sort(compareValues);
+    } else if (
+      expected &&
+      isObjectType(expected) &&
+      !getRangeBound(expected) &&
+      isPlainObject(value)
+    ) {
+      out[key] = canonicalValues(getObjectShape(expected), value, order, []);
+    } else {
+      out[key] = value;
+    }
+  }
+  return out;
 }
 
 export function buildQuery<TSchema extends AnySchema>(
@@ -197,58 +686,288 @@ export function buildQuery<TSchema extends AnySchema>(
   options: BuildOptions<TSchema> = {}
 ): URLSearchParams {
   const params = new URLSearchParams();
-  const shape: Record<string, z.ZodTypeAny> = (schema as any).shape || {};
   const cleaned = cleanObject(filters as any, {
     dropEmpty: options.dropEmpty,
     trimStrings: options.trimStrings,
   });
+  const shape = getSchemaShape(schema, (field) => cleaned[field]);
 
-  for (const [key, value] of Object.entries(cleaned)) {
-    const expected = shape[key];
-    if (!expected) {
-      if (!options.stripUnknown && value !== undefined)
-        params.set(key, String(value as any));
-      continue;
+  const canonical =
+    typeof options.canonical === "object"
+      ? options.canonical
+      : options.canonical
+        ? {}
+        : undefined;
+  const order = canonical?.order ?? "schema";
+  const values = canonical
+    ? canonicalValues(shape, cleaned, order, canonical.setKeys ?? [])
+    : cleaned;
+  const writeOptions = canonical ? { ...options, encodeDate: true } : options;
+  const orderParams = (p: URLSearchParams) => {
+    if (canonical && order === "alpha") p.sort();
+    return p;
+  };
+  const finish = (p: URLSearchParams) => {
+    if (options.version && p.toString()) {
+      p.set(versionKey(options), String(options.version.current));
     }
+    return orderParams(p);
+  };
 
-    if (isArrayType(expected) && Array.isArray(value)) {
-      const fmt =
-        options.arrayKeyFormat?.[key as keyof z.infer<TSchema> & string] ||
-        options.arrayFormat ||
-        "repeat";
-      const ser = resolveArraySerializer(fmt);
-      const items = (value as unknown[]).map((v) =>
-        v instanceof Date && options.encodeDate ? v.toISOString() : String(v)
-      );
-      for (const [k, v] of ser.serializeArray!(key, items)) params.append(k, v);
-      continue;
-    }
+  if (!options.pack) {
+    writeShape(params, shape, values, writeOptions);
+    return finish(params);
+  }
 
-    const encoded =
-      value instanceof Date && options.encodeDate
-        ? value.toISOString()
-        : String(value as any);
-    params.set(key, encoded);
+  const pack = typeof options.pack === "object" ? options.pack : {};
+  const readable: Record<string, any> = {};
+  const bulky: Record<string, any> = {};
+  for (const [key, value] of Object.entries(values)) {
+    const target = !pack.keys || pack.keys.includes(key) ? bulky : readable;
+    target[key] = value;
   }
 
-  return params;
+  writeShape(params, shape, readable, writeOptions);
+  const packedParams = new URLSearchParams();
+  writeShape(packedParams, shape, bulky, writeOptions);
+  const packedQuery = orderParams(packedParams).toString();
+  if (packedQuery) {
+    params.set(packKey(options), encodePackedState(packedQuery, pack.compress));
+  }
+  return finish(params);
 }
 
-export function buildUrl<TSchema extends AnySchema>(
+function splitUrl(url: string): { path: string; search: string; hash: string } {
+  const hashIndex = url.indexOf("#");
+  const hash = hashIndex === -1 ? "" : url.slice(hashIndex);
+  const rest = hashIndex === -1 ? url : url.slice(0, hashIndex);
+  const queryIndex = rest.indexOf("?");
+  return {
+    path: queryIndex === -1 ? rest : rest.slice(0, queryIndex),
+    search: queryIndex === -1 ? "" : rest.slice(queryIndex + 1),
+    hash,
+  };
+}
+
+function ownsKey(
+  schema: AnySchema,
+  key: string,
+  options: BuildOptions<any>
+): boolean {
+  if (options.namespace) return stripNamespace(key, options.namespace) !== undefined;
+  if (key === packKey(options)) return true;
+  if (options.version && key === versionKey(options)) return true;
+  return Object.keys(getSchemaShape(schema)).some((field) =>
+    fieldKeys(field, options).some(
+      (k) => key === k || key.startsWith(`${k}[`) || key.startsWith(`${k}.`)
+    )
+  );
+}
+
+function mergeQuery(
+  baseUrl: string,
+  schema: AnySchema,
+  query: URLSearchParams,
+  options: BuildOptions<any>
+): string {
+  const { path, search, hash } = splitUrl(baseUrl);
+  const existing = new URLSearchParams(search);
+
+  const merged = new URLSearchParams();
+  for (const [k, v] of existing) {
+    if (!query.has(k) && !ownsKey(schema, k, options)) merged.append(k, v);
+  }
+  for (const [k, v] of query) merged.append(k, v);
+
+  const qs = merged.toString();
+  return `${path}${qs ? `?${qs}` : ""}${hash}`;
+}
+
+function joinUrl<TSchema extends AnySchema>(
   baseUrl: string,
   schema: TSchema,
   filters: Partial<z.infer<TSchema>>,
   options?: BuildOptions<TSchema>
 ): string {
-  const qs = buildQuery(schema, filters, options).toString();
-  if (!qs) return baseUrl;
-  const hasQ = baseUrl.includes("?");
+  const query = buildQuery(schema, filters, options);
+  if (options?.merge) return mergeQuery(baseUrl, schema, query, options);
+  const qs = query.toString();
+  const base = options?.namespace
+    ? withoutNamespace(baseUrl, options.namespace)
+    : baseUrl;
+  if (!qs) return base;
+  const hasQ = base.includes("?");
   const sep = hasQ
-    ? baseUrl.endsWith("?") || baseUrl.endsWith("&")
+    ? base.endsWith("?") || base.endsWith("&")
       ? ""
       : "&"
     : "?";
-  return `${baseUrl}${sep}${qs}`;
+  return `${base}${sep}${qs}`;
+}
+
+export class UrlLengthError extends Error {
+  readonly url: string;
+  readonly maxLength: number;
+  readonly strategies: LengthStrategy[];
+  readonly affectedFields: string[];
+
+  constructor(result: UrlFitResult, maxLength: number) {
+    super(
+      `URL is ${result.url.length} characters long, exceeding the limit of ${maxLength}`
+    );
+    this.name = "UrlLengthError";
+    this.url = result.url;
+    this.maxLength = maxLength;
+    this.strategies = result.strategies;
+    this.affectedFields = result.affectedFields;
+  }
+}
+
+function applyLengthStrategy(
+  strategy: LengthStrategy,
+  schema: AnySchema,
+  filters: Record<string, any>,
+  options: BuildOptions<any>
+): { options: BuildOptions<any>; fields: string[] } {
+  const shape = getSchemaShape(schema, (field) => filters[field]);
+
+  switch (strategy) {
+    case "omitDefaults": {
+      const fields = Object.keys(filters).filter((field) => {
+        const fallback = shape[field] && getDefaultValue(shape[field]);
+        return fallback && isEqualValue(filters[field], fallback.value);
+      });
+      return { options: { ...options, omitDefaults: true }, fields };
+    }
+    case "compactArrays": {
+      const fields = Object.keys(filters).filter(
+        (field) =>
+          shape[field] &&
+          isArrayType(shape[field]) &&
+          Array.isArray(filters[field]) &&
+          !options.codecs?.[field]
+      );
+      const pack = typeof options.pack === "object" ? options.pack : {};
+      const keys =
+        options.pack && !pack.keys
+          ? undefined
+          : [...new Set([...(pack.keys ?? []), ...fields])];
+      return {
+        options: { ...options, pack: { ...pack, keys, compress: true } },
+        fields,
+      };
+    }
+    case "pack": {
+      const pack = typeof options.pack === "object" ? options.pack : {};
+      return {
+        options: { ...options, pack: { ...pack, keys: undefined, compress: true } },
+        fields: Object.keys(filters),
+      };
+    }
+  }
+}
+
+export function fitUrl<TSchema extends AnySchema>(
+  baseUrl: string,
+  schema: TSchema,
+  filters: Partial<z.infer<TSchema>>,
+  options: BuildOptions<TSchema> = {}
+): UrlFitResult {
+  const {
+    maxLength,
+    lengthStrategies = ["omitDefaults", "compactArrays", "pack"],
+    ...rest
+  } = options;
+  const cleaned = cleanObject(filters as any, {
+    dropEmpty: options.dropEmpty,
+    trimStrings: options.trimStrings,
+  });
+
+  let current: BuildOptions<TSchema> = rest;
+  let url = joinUrl(baseUrl, schema, filters, current);
+  const strategies: LengthStrategy[] = [];
+  const affected = new Set<string>();
+  const fieldsByStrategy: UrlFitResult["fieldsByStrategy"] = {};
+
+  for (const strategy of lengthStrategies) {
+    if (maxLength === undefined || url.length <= maxLength) break;
+    const step = applyLengthStrategy(strategy, schema, cleaned, current);
+    current = step.options;
+    strategies.push(strategy);
+    fieldsByStrategy[strategy] = step.fields;
+    for (const field of step.fields) affected.add(field);
+    url = joinUrl(baseUrl, schema, filters, current);
+  }
+
+  return {
+    url,
+    fits: maxLength === undefined || url.length <= maxLength,
+    strategies,
+    affectedFields: [...affected],
+    fieldsByStrategy,
+  };
+}
+
+export function buildUrl<TSchema extends AnySchema>(
+  baseUrl: string,
+  schema: TSchema,
+  filters: Partial<z.infer<TSchema>>,
+  options?: BuildOptions<TSchema>
+): string {
+  if (options?.maxLength === undefined) {
+    return joinUrl(baseUrl, schema, filters, options);
+  }
+  const result = fitUrl(baseUrl, schema, filters, options);
+  if (!result.fits) throw new UrlLengthError(result, options.maxLength);
+  return result.url;
+}
+
+function canonicalOptions<TSchema extends AnySchema>(
+  options: ParseOptions<TSchema> & BuildOptions<TSchema>
+) {
+  const parseOptions: ParseOptions<TSchema> = {
+    coerceTypes: true,
+    dropEmpty: true,
+    trimStrings: true,
+    stripUnknown: true,
+    ...options,
+  };
+  const buildOptions: BuildOptions<TSchema> = {
+    dropEmpty: true,
+    trimStrings: true,
+    stripUnknown: true,
+    ...options,
+    canonical: options.canonical || true,
+  };
+  return { parseOptions, buildOptions };
+}
+
+export function isSameQuery<TSchema extends AnySchema>(
+  schema: TSchema,
+  a: string | URLSearchParams,
+  b: string | URLSearchParams,
+  options: ParseOptions<TSchema> & BuildOptions<TSchema> = {}
+): boolean {
+  const { parseOptions, buildOptions } = canonicalOptions(options);
+  const canonicalize = (input: string | URLSearchParams) =>
+    buildQuery(
+      schema,
+      parseQuery(schema, input, parseOptions),
+      buildOptions
+    ).toString();
+  return canonicalize(a) === canonicalize(b);
+}
+
+export function canonicalizeUrl<TSchema extends AnySchema>(
+  schema: TSchema,
+  url: string,
+  options: ParseOptions<TSchema> & BuildOptions<TSchema> = {}
+): string {
+  const { parseOptions, buildOptions } = canonicalOptions(options);
+  const { path, search, hash } = splitUrl(url);
+  const filters = parseQuery(schema, search, parseOptions);
+  const qs = buildQuery(schema, filters, buildOptions).toString();
+  return `${path}${qs ? `?${qs}` : ""}${hash}`;
 }
 
 export function mergeFilters<TSchema extends AnySchema>(
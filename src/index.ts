@@ -1,4 +1,8 @@
 export * from "./types";
 export * from "./core";
+export * from "./serializers";
+export * from "./schemas";
 export * from "./react";
-export * from "./next";
\ No newline at end of file
+export * from "./next";
+export * from "./node";
+export * from "./openapi";
\ No newline at end of file
@@ -0,0 +1,201 @@
+import type { z } from "zod";
+
+const V3_KINDS: Record<string, string> = {
+  nativeenum: "enum",
+  discriminatedunion: "union",
+  pipeline: "pipe",
+};
+
+function getDef(zodType: z.ZodTypeAny): any {
+  return (zodType as any)?._zod?.def ?? (zodType as any)?._def;
+}
+
+export function getKind(zodType: z.ZodTypeAny): string | undefined {
+  const def = getDef(zodType);
+  if (typeof def?.typeName === "string") {
+    const kind = def.typeName.replace(/^Zod/, "").toLowerCase();
+    return V3_KINDS[kind] ?? kind;
+  }
+  return typeof def?.type === "string" ? def.type : undefined;
+}
+
+function getWrappedType(zodType: z.ZodTypeAny): z.ZodTypeAny | undefined {
+  const def = getDef(zodType);
+  if (def?.innerType) return def.innerType;
+  if (getKind(zodType) === "effects") return def.schema;
+  if (getKind(zodType) === "pipe") {
+    return getKind(def.in) === "transform" ? def.out : def.in;
+  }
+  return undefined;
+}
+
+export function getInnerType(zodType: z.ZodTypeAny): z.ZodTypeAny {
+  const wrapped = getWrappedType(zodType);
+  return wrapped ? getInnerType(wrapped) : zodType;
+}
+
+export function isNullableType(zodType: z.ZodTypeAny): boolean {
+  if (getKind(zodType) === "nullable") return true;
+  const wrapped = getWrappedType(zodType);
+  return wrapped ? isNullableType(wrapped) : false;
+}
+
+export function isOptionalType(zodType: z.ZodTypeAny): boolean {
+  const kind = getKind(zodType);
+  if (kind === "optional" || kind === "default") return true;
+  const wrapped = getWrappedType(zodType);
+  return wrapped ? isOptionalType(wrapped) : false;
+}
+
+export function isIntegerType(zodType: z.ZodTypeAny): boolean {
+  const def = getDef(getInnerType(zodType));
+  const isInt = (format: unknown) =>
+    typeof format === "string" && format.includes("int");
+  return (
+    isInt(def?.format) ||
+    (def?.checks ?? []).some(
+      (check: any) => check?.kind === "int" || isInt(getDef(check)?.format)
+    )
+  );
+}
+
+export function getDescription(zodType: z.ZodTypeAny): string | undefined {
+  const description = (zodType as any)?.description;
+  if (typeof description === "string") return description;
+  const wrapped = getWrappedType(zodType);
+  return wrapped ? getDescription(wrapped) : undefined;
+}
+
+export function getDefaultValue(
+  zodType: z.ZodTypeAny
+): { value: unknown } | undefined {
+  if (getKind(zodType) === "default") {
+    const { defaultValue } = getDef(zodType);
+    return {
+      value: typeof defaultValue === "function" ? defaultValue() : defaultValue,
+    };
+  }
+  const wrapped = getWrappedType(zodType);
+  return wrapped ? getDefaultValue(wrapped) : undefined;
+}
+
+export function isArrayType(zodType: z.ZodTypeAny): boolean {
+  return getKind(getInnerType(zodType)) === "array";
+}
+
+export function getArrayElementType(zodType: z.ZodTypeAny): z.ZodTypeAny {
+  const def = getDef(getInnerType(zodType));
+  return def?.element ?? def?.type;
+}
+
+export function isObjectType(zodType: z.ZodTypeAny): boolean {
+  return getKind(getInnerType(zodType)) === "object";
+}
+
+export function getObjectShape(
+  zodType: z.ZodTypeAny
+): Record<string, z.ZodTypeAny> {
+  const { shape } = getDef(getInnerType(zodType)) ?? {};
+  return (typeof shape === "function" ? shape() : shape) || {};
+}
+
+export function getLiteralValues(zodType: z.ZodTypeAny): unknown[] {
+  const def = getDef(getInnerType(zodType));
+  return def?.values ?? [def?.value];
+}
+
+export function getEnumValues(zodType: z.ZodTypeAny): (string | number)[] {
+  const def = getDef(getInnerType(zodType));
+  const values = def?.entries ?? def?.values;
+  if (Array.isArray(values)) return values;
+  return Object.keys(values ?? {})
+    .filter((k) => typeof values[values[k]] !== "number")
+    .map((k) => values[k]);
+}
+
+export function getUnionOptions(zodType: z.ZodTypeAny): z.ZodTypeAny[] {
+  return getDef(getInnerType(zodType))?.options ?? [];
+}
+
+function getDiscriminatorValues(
+  variant: z.ZodTypeAny,
+  discriminator: string
+): unknown[] {
+  const field = getObjectShape(variant)[discriminator];
+  if (!field) return [];
+  switch (getKind(getInnerType(field))) {
+    case "literal":
+      return getLiteralValues(field);
+    case "enum":
+      return getEnumValues(field);
+    default:
+      return [];
+  }
+}
+
+export function getSchemaShape(
+  zodType: z.ZodTypeAny,
+  readDiscriminator: (key: string) => unknown = () => undefined
+): Record<string, z.ZodTypeAny> {
+  const inner = getInnerType(zodType);
+  const def = getDef(inner);
+
+  switch (getKind(inner)) {
+    case "object":
+      return getObjectShape(inner);
+    case "intersection":
+      return {
+        ...getSchemaShape(def.left, readDiscriminator),
+        ...getSchemaShape(def.right, readDiscriminator),
+      };
+    case "union": {
+      const options: z.ZodTypeAny[] = def.options ?? [];
+      if (def.discriminator) {
+        const value = readDiscriminator(def.discriminator);
+        const variant =
+          value === undefined
+            ? undefined
+            : options.find((option) =>
+                getDiscriminatorValues(option, def.discriminator).some(
+                  (v) => String(v) === String(value)
+                )
+              );
+        if (variant) return getSchemaShape(variant, readDiscriminator);
+      }
+      return Object.assign(
+        {},
+        ...options.map((option) => getSchemaShape(option, readDiscriminator))
+      );
+    }
+    default:
+      return {};
+  }
+}
+
+const rangeBounds = new WeakMap<z.ZodTypeAny, z.ZodTypeAny>();
+
+export function registerRangeType(
+  zodType: z.ZodTypeAny,
+  bound: z.ZodTypeAny
+): void {
+  rangeBounds.set(getInnerType(zodType), bound);
+}
+
+export function getRangeBound(zodType: z.ZodTypeAny): z.ZodTypeAny | undefined {
+  return rangeBounds.get(getInnerType(zodType));
+}
+
+const sortFields = new WeakMap<z.ZodTypeAny, readonly string[]>();
+
+export function registerSortType(
+  zodType: z.ZodTypeAny,
+  fields: readonly string[]
+): void {
+  sortFields.set(getInnerType(zodType), fields);
+}
+
+export function getSortFields(
+  zodType: z.ZodTypeAny
+): readonly string[] | undefined {
+  return sortFields.get(getInnerType(zodType));
+}
\ No newline at end of file
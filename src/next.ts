@@ -1,6 +1,15 @@
 import { z } from "zod";
-import type { AnySchema, ParseOptions } from "./types";
-import { parseQuery } from "./core";
+import type {
+  AnySchema,
+  ParseOptions,
+  SafeParseQueryResult,
+  SearchParamsInput,
+  SearchParamsRecord,
+  UrlFiltersOptions,
+} from "./types";
+import { buildUrl, parseQuery, safeParseQuery } from "./core";
+
+type Resolved<TInput, T> = TInput extends Promise<any> ? Promise<T> : T;
 
 export function getFiltersFromUrl<TSchema extends AnySchema>(
   schema: TSchema,
@@ -17,4 +26,118 @@ export function getFiltersFromSearch<TSchema extends AnySchema>(
   options: ParseOptions<TSchema> = { coerceTypes: true, dropEmpty: true, trimStrings: true, stripUnknown: true }
 ): z.infer<TSchema> {
   return parseQuery(schema, search, options);
+}
+
+export function safeGetFiltersFromUrl<TSchema extends AnySchema>(
+  schema: TSchema,
+  fullUrl: string,
+  options: ParseOptions<TSchema> = { coerceTypes: true, dropEmpty: true, trimStrings: true, stripUnknown: true }
+): SafeParseQueryResult<TSchema> {
+  const u = new URL(fullUrl, "http://localhost");
+  return safeParseQuery(schema, u.search, options);
+}
+
+export function safeGetFiltersFromSearch<TSchema extends AnySchema>(
+  schema: TSchema,
+  search: string,
+  options: ParseOptions<TSchema> = { coerceTypes: true, dropEmpty: true, trimStrings: true, stripUnknown: true }
+): SafeParseQueryResult<TSchema> {
+  return safeParseQuery(schema, search, options);
+}
+
+function toSearchString(searchParams: SearchParamsRecord): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(searchParams)) {
+    if (value === undefined) continue;
+    for (const v of Array.isArray(value) ? value : [value]) params.append(key, v);
+  }
+  return params.toString();
+}
+
+function withSearchParams<TInput extends SearchParamsInput, T>(
+  searchParams: TInput,
+  fn: (search: string) => T
+): Resolved<TInput, T> {
+  if (searchParams instanceof Promise) {
+    return searchParams.then((resolved) => fn(toSearchString(resolved))) as Resolved<TInput, T>;
+  }
+  return fn(toSearchString(searchParams as SearchParamsRecord)) as Resolved<TInput, T>;
+}
+
+export function getFiltersFromSearchParams<
+  TSchema extends AnySchema,
+  TInput extends SearchParamsInput,
+>(
+  schema: TSchema,
+  searchParams: TInput,
+  options: ParseOptions<TSchema> = { coerceTypes: true, dropEmpty: true, trimStrings: true, stripUnknown: true }
+): Resolved<TInput, z.infer<TSchema>> {
+  return withSearchParams(searchParams, (search) => parseQuery(schema, search, options));
+}
+
+export function safeGetFiltersFromSearchParams<
+  TSchema extends AnySchema,
+  TInput extends SearchParamsInput,
+>(
+  schema: TSchema,
+  searchParams: TInput,
+  options: ParseOptions<TSchema> = { coerceTypes: true, dropEmpty: true, trimStrings: true, stripUnknown: true }
+): Resolved<TInput, SafeParseQueryResult<TSchema>> {
+  return withSearchParams(searchParams, (search) => safeParseQuery(schema, search, options));
+}
+
+function cleanedUrl<TSchema extends AnySchema>(
+  schema: TSchema,
+  pathname: string,
+  search: string,
+  options: UrlFiltersOptions<TSchema>,
+  merge: boolean
+): string {
+  const { data } = safeParseQuery(schema, search, {
+    coerceTypes: true,
+    dropEmpty: true,
+    trimStrings: true,
+    stripUnknown: true,
+    ...options.parse,
+  });
+  const base = merge && search ? `${pathname}?${search}` : pathname;
+  return buildUrl(base, schema, data ?? {}, {
+    dropEmpty: true,
+    trimStrings: true,
+    stripUnknown: true,
+    omitDefaults: true,
+    canonical: true,
+    merge,
+    ...options.build,
+  });
+}
+
+export function getCanonicalFiltersUrl<
+  TSchema extends AnySchema,
+  TInput extends SearchParamsInput,
+>(
+  schema: TSchema,
+  pathname: string,
+  searchParams: TInput,
+  options: UrlFiltersOptions<TSchema> = {}
+): Resolved<TInput, string> {
+  return withSearchParams(searchParams, (search) =>
+    cleanedUrl(schema, pathname, search, options, false)
+  );
+}
+
+export function getFiltersRedirect<
+  TSchema extends AnySchema,
+  TInput extends SearchParamsInput,
+>(
+  schema: TSchema,
+  pathname: string,
+  searchParams: TInput,
+  options: UrlFiltersOptions<TSchema> = {}
+): Resolved<TInput, string | undefined> {
+  return withSearchParams(searchParams, (search) => {
+    const current = search ? `${pathname}?${search}` : pathname;
+    const target = cleanedUrl(schema, pathname, search, options, true);
+    return target === current ? undefined : target;
+  });
 }
\ No newline at end of file
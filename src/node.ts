@@ -0,0 +1,130 @@
+import { z } from "zod";
+import type {
+  AnySchema,
+  FilterErrorPayload,
+  ParseOptions,
+  RequestFiltersResult,
+} from "./types";
+import { parseQuery } from "./core";
+import { resolveArraySerializer } from "./serializers";
+
+export interface IncomingMessageLike {
+  url?: string;
+}
+
+export interface FastifyRequestLike {
+  url?: string;
+  query?: unknown;
+}
+
+export type QueryObject = Record<string, unknown>;
+
+function isQueryObject(val: unknown): val is QueryObject {
+  return Object.prototype.toString.call(val) === "[object Object]";
+}
+
+function appendQueryValue(
+  params: URLSearchParams,
+  key: string,
+  field: string | undefined,
+  value: unknown,
+  options: ParseOptions<any>
+): void {
+  if (value === undefined || value === null) return;
+
+  if (Array.isArray(value)) {
+    const fmt =
+      (field && options.arrayKeyFormat?.[field]) ||
+      options.arrayFormat ||
+      "repeat";
+    const items = value.map((v) => String(v));
+    for (const [k, v] of resolveArraySerializer(fmt).serializeArray!(key, items)) {
+      params.append(k, v);
+    }
+    return;
+  }
+
+  if (isQueryObject(value)) {
+    for (const [child, v] of Object.entries(value)) {
+      const nested =
+        options.nestedFormat === "dot" ? `${key}.${child}` : `${key}[${child}]`;
+      appendQueryValue(params, nested, undefined, v, options);
+    }
+    return;
+  }
+
+  params.append(key, String(value));
+}
+
+export function queryObjectToSearchParams(
+  query: QueryObject,
+  options: ParseOptions<any> = {}
+): URLSearchParams {
+  const params = new URLSearchParams();
+  const prefix = options.namespace ? `${options.namespace}.` : "";
+  for (const [key, value] of Object.entries(query)) {
+    const field = key.startsWith(prefix) ? key.slice(prefix.length) : undefined;
+    appendQueryValue(params, key, field, value, options);
+  }
+  return params;
+}
+
+function toErrorPayload(issues: z.ZodIssue[]): FilterErrorPayload {
+  return {
+    status: 400,
+    error: "Bad Request",
+    message: "Invalid filter parameters",
+    issues: issues.map((issue) => ({
+      path: issue.path.join("."),
+      code: issue.code,
+      message: issue.message,
+    })),
+  };
+}
+
+function parseRequest<TSchema extends AnySchema>(
+  schema: TSchema,
+  input: string | URLSearchParams,
+  options: ParseOptions<TSchema>
+): RequestFiltersResult<TSchema> {
+  try {
+    return { success: true, data: parseQuery(schema, input, options) };
+  } catch (error) {
+    if (Array.isArray((error as any)?.issues)) {
+      return { success: false, error: toErrorPayload((error as any).issues) };
+    }
+    throw error;
+  }
+}
+
+export function getFiltersFromRequest<TSchema extends AnySchema>(
+  schema: TSchema,
+  req: IncomingMessageLike,
+  options: ParseOptions<TSchema> = { coerceTypes: true, dropEmpty: true, trimStrings: true, stripUnknown: true }
+): RequestFiltersResult<TSchema> {
+  const u = new URL(req.url ?? "/", "http://localhost");
+  return parseRequest(schema, u.search, options);
+}
+
+export function getFiltersFromQueryObject<TSchema extends AnySchema>(
+  schema: TSchema,
+  query: QueryObject,
+  options: ParseOptions<TSchema> = { coerceTypes: true, dropEmpty: true, trimStrings: true, stripUnknown: true }
+): RequestFiltersResult<TSchema> {
+  return parseRequest(schema, queryObjectToSearchParams(query, options), options);
+}
+
+export function getFiltersFromFastifyRequest<TSchema extends AnySchema>(
+  schema: TSchema,
+  request: FastifyRequestLike,
+  options: ParseOptions<TSchema> = { coerceTypes: true, dropEmpty: true, trimStrings: true, stripUnknown: true }
+): RequestFiltersResult<TSchema> {
+  if (typeof request.url === "string") {
+    return getFiltersFromRequest(schema, request, options);
+  }
+  return getFiltersFromQueryObject(
+    schema,
+    isQueryObject(request.query) ? request.query : {},
+    options
+  );
+}
\ No newline at end of file
@@ -0,0 +1,248 @@
+import type { z } from "zod";
+import type {
+  AnySchema,
+  BuildOptions,
+  JsonSchema,
+  OpenApiParameter,
+} from "./types";
+import { DEFAULT_PACK_PARAM, DEFAULT_VERSION_PARAM } from "./core";
+import {
+  getArrayElementType,
+  getDefaultValue,
+  getDescription,
+  getEnumValues,
+  getInnerType,
+  getKind,
+  getLiteralValues,
+  getObjectShape,
+  getRangeBound,
+  getSchemaShape,
+  getSortFields,
+  getUnionOptions,
+  isArrayType,
+  isIntegerType,
+  isNullableType,
+  isObjectType,
+  isOptionalType,
+} from "./introspect";
+
+function toJsonValue(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(toJsonValue);
+  if (Object.prototype.toString.call(value) === "[object Object]") {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([k, v]) => [
+        k,
+        toJsonValue(v),
+      ])
+    );
+  }
+  return value;
+}
+
+function enumType(values: unknown[]): string | undefined {
+  if (values.every((v) => typeof v === "string")) return "string";
+  if (values.every((v) => typeof v === "number")) return "number";
+  return undefined;
+}
+
+function baseJsonSchema(inner: z.ZodTypeAny): JsonSchema {
+  switch (getKind(inner)) {
+    case "string":
+      return { type: "string" };
+    case "number":
+      return { type: isIntegerType(inner) ? "integer" : "number" };
+    case "bigint":
+      return { type: "integer", format: "int64" };
+    case "boolean":
+      return { type: "boolean" };
+    case "date":
+      return { type: "string", format: "date-time" };
+    case "enum": {
+      const values = getEnumValues(inner);
+      const type = enumType(values);
+      return type ? { type, enum: values } : { enum: values };
+    }
+    case "literal": {
+      const values = getLiteralValues(inner);
+      return values.length === 1 ? { const: values[0] } : { enum: values };
+    }
+    case "union":
+      return { anyOf: getUnionOptions(inner).map(toJsonSchema) };
+    case "array":
+      return { type: "array", items: toJsonSchema(getArrayElementType(inner)) };
+    case "object": {
+      const shape = getObjectShape(inner);
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+      for (const [key, value] of Object.entries(shape)) {
+        properties[key] = toJsonSchema(value);
+        if (!isOptionalType(value)) required.push(key);
+      }
+      return required.length
+        ? { type: "object", properties, required }
+        : { type: "object", properties };
+    }
+    default:
+      return {};
+  }
+}
+
+export function toJsonSchema(zodType: z.ZodTypeAny): JsonSchema {
+  let out = baseJsonSchema(getInnerType(zodType));
+  if (isNullableType(zodType)) {
+    out =
+      typeof out.type === "string"
+        ? { ...out, type: [out.type, "null"] }
+        : { anyOf: [out, { type: "null" }] };
+  }
+  const fallback = getDefaultValue(zodType);
+  if (fallback) out.default = toJsonValue(fallback.value);
+  const description = getDescription(zodType);
+  if (description) out.description = description;
+  return out;
+}
+
+function paramName(field: string, options: BuildOptions<any>): string {
+  const alias = options.keyAliases?.[field];
+  const key = (typeof alias === "string" ? alias : alias?.[0]) || field;
+  return options.namespace ? `${options.namespace}.${key}` : key;
+}
+
+function arrayParameter(
+  base: OpenApiParameter,
+  fmt: string,
+  schema: JsonSchema
+): OpenApiParameter {
+  switch (fmt) {
+    case "repeat":
+      return { ...base, style: "form", explode: true, schema };
+    case "comma":
+      return { ...base, style: "form", explode: false, schema };
+    case "pipe":
+      return { ...base, style: "pipeDelimited", explode: false, schema };
+    case "bracket":
+      return { ...base, name: `${base.name}[]`, style: "form", explode: true, schema };
+    case "index": {
+      const note = `Indexed array: send further items as ${base.name}[1], ${base.name}[2], …`;
+      return {
+        ...base,
+        name: `${base.name}[0]`,
+        description: base.description ? `${base.description}. ${note}` : note,
+        schema: schema.items ?? {},
+      };
+    }
+    case "json":
+      return { ...base, content: { "application/json": { schema } } };
+    default:
+      return { ...base, schema: { type: "string" } };
+  }
+}
+
+function fieldParameters(
+  field: string,
+  name: string,
+  zodType: z.ZodTypeAny,
+  required: boolean,
+  options: BuildOptions<any>,
+  nested: boolean
+): OpenApiParameter[] {
+  const description = getDescription(zodType);
+  const base: OpenApiParameter = { name, in: "query", required };
+  if (description) base.description = description;
+  const schema = toJsonSchema(zodType);
+
+  if (!nested && options.codecs?.[field]) {
+    return [{ ...base, schema: { type: "string" } }];
+  }
+
+  if (getRangeBound(zodType)) {
+    return [{ ...base, schema: { type: "string", pattern: "^.*\\.\\..*$" } }];
+  }
+
+  const sortFields = getSortFields(zodType);
+  if (sortFields) {
+    const names = sortFields.map((f) => f.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+    const field = `[-+]?(${names.join("|")})`;
+    return [
+      {
+        ...base,
+        schema: { type: "string", pattern: `^${field}(,${field})*$` },
+      },
+    ];
+  }
+
+  if (isObjectType(zodType)) {
+    if (options.nestedFormat !== "dot") {
+      return [{ ...base, style: "deepObject", explode: true, schema }];
+    }
+    return Object.entries(getObjectShape(zodType)).flatMap(([child, value]) =>
+      fieldParameters(
+        child,
+        `${name}.${child}`,
+        value,
+        required && !isOptionalType(value),
+        options,
+        true
+      )
+    );
+  }
+
+  if (isArrayType(zodType)) {
+    const fmt =
+      (!nested && options.arrayKeyFormat?.[field]) ||
+      options.arrayFormat ||
+      "repeat";
+    return [arrayParameter(base, fmt, schema)];
+  }
+
+  return [{ ...base, schema }];
+}
+
+export function toOpenApiParameters<TSchema extends AnySchema>(
+  schema: TSchema,
+  options: BuildOptions<TSchema> = {}
+): OpenApiParameter[] {
+  const shape = getSchemaShape(schema);
+  const isUnion = getKind(getInnerType(schema)) === "union";
+  const pack = options.pack
+    ? typeof options.pack === "object"
+      ? options.pack
+      : {}
+    : undefined;
+  const prefix = options.namespace ? `${options.namespace}.` : "";
+
+  const parameters: OpenApiParameter[] = [];
+  let packed = false;
+  for (const [field, zodType] of Object.entries(shape)) {
+    if (pack && (!pack.keys || pack.keys.includes(field))) {
+      packed = true;
+      continue;
+    }
+    const required = !isUnion && !isOptionalType(zodType);
+    parameters.push(
+      ...fieldParameters(field, paramName(field, options), zodType, required, options, false)
+    );
+  }
+
+  if (packed) {
+    parameters.push({
+      name: `${prefix}${pack?.param || DEFAULT_PACK_PARAM}`,
+      in: "query",
+      required: false,
+      description: "Packed filter state",
+      schema: { type: "string", pattern: "^\\.?[A-Za-z0-9_-]*$" },
+    });
+  }
+
+  if (options.version) {
+    parameters.push({
+      name: `${prefix}${options.version.param || DEFAULT_VERSION_PARAM}`,
+      in: "query",
+      required: false,
+      schema: { type: "integer", minimum: 1, maximum: options.version.current },
+    });
+  }
+
+  return parameters;
+}
\ No newline at end of file
@@ -0,0 +1,110 @@
+const MAX_CODE = 1 << 16;
+const COMPRESSED_PREFIX = ".";
+const MAX_UNPACKED_LENGTH = 64 * 1024;
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+function compress(bytes: Uint8Array): Uint8Array {
+  const dict = new Map<string, number>();
+  const out: number[] = [];
+  let nextCode = 256;
+  let width = 9;
+  let buffer = 0;
+  let bits = 0;
+  let w = "";
+
+  const emit = (code: number) => {
+    buffer = (buffer << width) | code;
+    bits += width;
+    while (bits >= 8) {
+      bits -= 8;
+      out.push((buffer >>> bits) & 0xff);
+    }
+    buffer &= (1 << bits) - 1;
+  };
+
+  const codeOf = (s: string) => (s.length === 1 ? s.charCodeAt(0) : dict.get(s)!);
+
+  for (const byte of bytes) {
+    const c = String.fromCharCode(byte);
+    const wc = w + c;
+    if (w === "" || dict.has(wc)) {
+      w = wc;
+      continue;
+    }
+    emit(codeOf(w));
+    if (nextCode < MAX_CODE) {
+      dict.set(wc, nextCode++);
+      if (nextCode > 1 << width && width < 16) width++;
+    }
+    w = c;
+  }
+
+  if (w) emit(codeOf(w));
+  if (bits > 0) out.push((buffer << (8 - bits)) & 0xff);
+  return Uint8Array.from(out);
+}
+
+function decompress(bytes: Uint8Array): Uint8Array {
+  const entries: string[] = [];
+  for (let i = 0; i < 256; i++) entries.push(String.fromCharCode(i));
+  let nextCode = 256;
+  let width = 9;
+  let buffer = 0;
+  let bits = 0;
+  let offset = 0;
+  let out = "";
+  let w: string | undefined;
+
+  const read = (): number | undefined => {
+    while (bits < width) {
+      if (offset >= bytes.length) return undefined;
+      buffer = ((buffer << 8) | bytes[offset++]) & 0xffffff;
+      bits += 8;
+    }
+    bits -= width;
+    return (buffer >>> bits) & ((1 << width) - 1);
+  };
+
+  for (let code = read(); code !== undefined; code = read()) {
+    let entry: string;
+    if (code < entries.length) entry = entries[code];
+    else if (w !== undefined && code === entries.length) entry = w + w[0];
+    else throw new Error("Invalid packed state");
+
+    out += entry;
+    if (out.length > MAX_UNPACKED_LENGTH) throw new Error("Packed state is too large");
+    if (w !== undefined && entries.length < MAX_CODE) entries.push(w + entry[0]);
+    w = entry;
+
+    if (nextCode < MAX_CODE) {
+      nextCode++;
+      if (nextCode > 1 << width && width < 16) width++;
+    }
+  }
+
+  return Uint8Array.from(out, (c) => c.charCodeAt(0));
+}
+
+export function encodePackedState(query: string, compressed?: boolean): string {
+  const bytes = new TextEncoder().encode(query);
+  return compressed
+    ? COMPRESSED_PREFIX + toBase64Url(compress(bytes))
+    : toBase64Url(bytes);
+}
+
+export function decodePackedState(value: string): string {
+  const bytes = value.startsWith(COMPRESSED_PREFIX)
+    ? decompress(fromBase64Url(value.slice(COMPRESSED_PREFIX.length)))
+    : fromBase64Url(value);
+  return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+}
\ No newline at end of file
@@ -1,73 +1,567 @@
 import * as React from "react";
 import { z } from "zod";
-import { buildUrl, mergeFilters, parseQuery, resetFilters } from "./core";
-import type { AnySchema, BuildOptions, ParseOptions } from "./types";
+import {
+  buildUrl,
+  getQueryVersion,
+  isEqualValue,
+  mergeFilters,
+  migrateQuery,
+  parseQuery,
+  resetFilters,
+  safeParseQuery,
+} from "./core";
+import type {
+  AnySchema,
+  BuildOptions,
+  ParseOptions,
+  VersionOptions,
+} from "./types";
 
-export interface UseFiltersOptions<TSchema extends AnySchema> {
+export interface UseFiltersOptions<
+  TSchema extends AnySchema,
+  TSafe extends boolean | undefined = boolean | undefined,
+> {
   parse?: ParseOptions<TSchema>;
   build?: BuildOptions<TSchema>;
   basePath?: string;
+  safe?: TSafe;
+  namespace?: string;
+  version?: VersionOptions;
+  resetPageOnChange?: boolean | string;
+  debounce?: Partial<Record<keyof z.infer<TSchema> & string, number>>;
+  navigation?: NavigateOptions;
 }
 
-export function useFiltersGeneric<TSchema extends AnySchema>(
+export type HistoryMode = "push" | "replace";
+
+export interface NavigateOptions {
+  history?: HistoryMode;
+  scroll?: boolean;
+  shallow?: boolean;
+  routerOptions?: Record<string, unknown>;
+}
+
+export type FiltersValue<
+  TSchema extends AnySchema,
+  TSafe extends boolean | undefined,
+> = [TSafe] extends [false | undefined]
+  ? z.infer<TSchema>
+  : Partial<z.infer<TSchema>>;
+
+export type FiltersUpdate<
+  TSchema extends AnySchema,
+  TValue = z.infer<TSchema>,
+> = Partial<z.infer<TSchema>> | ((prev: TValue) => Partial<z.infer<TSchema>>);
+
+interface PendingWrite<TSchema extends AnySchema> {
+  values: Partial<z.infer<TSchema>>;
+  base: string;
+  filters: Partial<z.infer<TSchema>>;
+  navigation: NavigateOptions;
+  pathname: string | undefined;
+}
+
+interface QueuedUpdate<TSchema extends AnySchema> {
+  values: Partial<z.infer<TSchema>>;
+  navigation: NavigateOptions;
+  pathname: string | undefined;
+}
+
+const LOCATION_EVENT = "filters-query-params:navigate";
+
+function currentPathname(): string | undefined {
+  return typeof window !== "undefined" ? window.location.pathname : undefined;
+}
+
+export function useFiltersGeneric<
+  TSchema extends AnySchema,
+  TSafe extends boolean | undefined = undefined,
+>(
   schema: TSchema,
   getSearch: () => string,
-  pushUrl: (url: string) => void,
-  opts: UseFiltersOptions<TSchema> = {}
+  pushUrl: (url: string, navigation?: NavigateOptions) => void,
+  opts: UseFiltersOptions<TSchema, TSafe> = {}
 ) {
+  type Filters = FiltersValue<TSchema, TSafe>;
+
   const basePath =
     opts.basePath ||
     (typeof window !== "undefined" ? window.location.pathname : "/");
   const search = getSearch();
+  const {
+    filters: urlFilters,
+    errors,
+    droppedKeys,
+  } = React.useMemo(() => {
+    const parseOptions: ParseOptions<TSchema> = {
+      coerceTypes: true,
+      dropEmpty: true,
+      trimStrings: true,
+      stripUnknown: true,
+      namespace: opts.namespace,
+      version: opts.version,
+      ...opts.parse,
+    };
+    if (!opts.safe) {
+      return {
+        filters: parseQuery(schema, search, parseOptions) as Filters,
+        errors: [] as z.ZodIssue[],
+        droppedKeys: [] as string[],
+      };
+    }
+    const result = safeParseQuery(schema, search, parseOptions);
+    return {
+      filters: (result.data ?? result.partial) as Filters,
+      errors: result.errors,
+      droppedKeys: result.droppedKeys,
+    };
+  }, [
+    schema,
+    search,
+    opts.parse?.arrayFormat,
+    opts.safe,
+    opts.namespace,
+    opts.version,
+  ]);
+
+  const merge = opts.build?.merge ?? true;
+  const currentUrl = `${basePath}${search && !search.startsWith("?") ? "?" : ""}${search}`;
+  const baseUrl = merge || opts.namespace ? currentUrl : basePath;
+  const buildOptions = React.useMemo<BuildOptions<TSchema>>(
+    () => ({
+      encodeDate: true,
+      dropEmpty: true,
+      trimStrings: true,
+      stripUnknown: true,
+      namespace: opts.namespace,
+      version: opts.version,
+      merge: true,
+      ...opts.build,
+    }),
+    [opts.build, opts.namespace, opts.version]
+  );
+
+  const [pending, setPending] = React.useState<Partial<z.infer<TSchema>>>({});
+  const pendingRef = React.useRef<PendingWrite<TSchema> | undefined>(undefined);
+  const timerRef = React.useRef<ReturnType<typeof setTimeout> | undefined>(
+    undefined
+  );
+
+  const optimistic = React.useMemo(
+    () =>
+      Object.keys(pending).length
+        ? ({ ...urlFilters, ...pending } as Filters)
+        : urlFilters,
+    [urlFilters, pending]
+  );
+
+  const [queued, setQueued] = React.useState<QueuedUpdate<TSchema> | undefined>(
+    undefined
+  );
+  const queueRef = React.useRef<QueuedUpdate<TSchema> | undefined>(undefined);
   const filters = React.useMemo(
     () =>
-      parseQuery(schema, search, {
-        coerceTypes: true,
-        dropEmpty: true,
-        trimStrings: true,
-        stripUnknown: true,
-        ...opts.parse,
-      }),
-    [schema, search, opts.parse?.arrayFormat]
+      queued ? ({ ...optimistic, ...queued.values } as Filters) : optimistic,
+    [optimistic, queued]
   );
 
-  const setFilters = React.useCallback(
-    (next: Partial<z.infer<TSchema>>) => {
-      const merged = mergeFilters<TSchema>(filters, next, { dropEmpty: true });
-      const url = buildUrl(basePath, schema, merged, {
-        encodeDate: true,
-        dropEmpty: true,
-        trimStrings: true,
-        stripUnknown: true,
-        ...opts.build,
+  const toUrl = React.useCallback(
+    (
+      base: string,
+      current: Partial<z.infer<TSchema>>,
+      next: Partial<z.infer<TSchema>>
+    ) => {
+      const merged = mergeFilters<TSchema>(current, next, { dropEmpty: true });
+      return buildUrl(base, schema, merged, buildOptions);
+    },
+    [schema, buildOptions]
+  );
+
+  const write = React.useCallback(
+    (
+      base: string,
+      current: Partial<z.infer<TSchema>>,
+      next: Partial<z.infer<TSchema>>,
+      navigation: NavigateOptions
+    ) => {
+      pushUrl(toUrl(base, current, next), navigation);
+    },
+    [pushUrl, toUrl]
+  );
+
+  const takePending = React.useCallback(() => {
+    clearTimeout(timerRef.current);
+    const taken = pendingRef.current;
+    pendingRef.current = undefined;
+    if (taken) setPending({});
+    return taken;
+  }, []);
+
+  const flush = React.useCallback(() => {
+    const taken = takePending();
+    if (taken) write(taken.base, taken.filters, taken.values, taken.navigation);
+  }, [takePending, write]);
+
+  const commit = React.useCallback(
+    (next: Partial<z.infer<TSchema>>, navigation: NavigateOptions) => {
+      const keys = Object.keys(next);
+      const delay = keys.length
+        ? Math.max(
+            ...keys.map(
+              (key) => opts.debounce?.[key as keyof z.infer<TSchema> & string] ?? NaN
+            )
+          )
+        : NaN;
+
+      const pageKey =
+        opts.resetPageOnChange === true ? "page" : opts.resetPageOnChange;
+      const changed = keys.some(
+        (key) => !isEqualValue((next as any)[key], (optimistic as any)[key])
+      );
+      if (pageKey && !(pageKey in next) && changed) {
+        next = { ...next, [pageKey]: undefined };
+      }
+
+      if (!Number.isNaN(delay)) {
+        const values = { ...pendingRef.current?.values, ...next };
+        pendingRef.current = {
+          values,
+          base: baseUrl,
+          filters: urlFilters,
+          navigation: { ...opts.navigation, history: "replace", ...navigation },
+          pathname: pendingRef.current?.pathname ?? currentPathname(),
+        };
+        setPending(values);
+        clearTimeout(timerRef.current);
+        timerRef.current = setTimeout(flush, delay);
+        return;
+      }
+
+      const taken = takePending();
+      write(baseUrl, urlFilters, { ...taken?.values, ...next }, {
+        ...opts.navigation,
+        ...navigation,
       });
-      pushUrl(url);
     },
-    [filters, basePath, schema, pushUrl, opts.build]
+    [
+      optimistic,
+      urlFilters,
+      baseUrl,
+      write,
+      flush,
+      takePending,
+      opts.debounce,
+      opts.resetPageOnChange,
+      opts.navigation,
+    ]
+  );
+
+  const setFilters = React.useCallback(
+    (update: FiltersUpdate<TSchema, Filters>, navigation?: NavigateOptions) => {
+      const prev = queueRef.current;
+      const current = prev
+        ? ({ ...optimistic, ...prev.values } as Filters)
+        : optimistic;
+      const next = typeof update === "function" ? update(current) : update;
+      queueRef.current = {
+        values: { ...prev?.values, ...next },
+        navigation: { ...prev?.navigation, ...navigation },
+        pathname: prev ? prev.pathname : currentPathname(),
+      };
+      setQueued(queueRef.current);
+    },
+    [optimistic]
   );
 
+  const commitRef = React.useRef(commit);
+  commitRef.current = commit;
+  const flushQueue = React.useCallback(() => {
+    const taken = queueRef.current;
+    queueRef.current = undefined;
+    if (!taken) return;
+    setQueued(undefined);
+    commitRef.current(taken.values, taken.navigation);
+  }, []);
+
+  React.useEffect(flushQueue, [queued]);
+
   const reset = React.useCallback(
-    (defaults?: Partial<z.infer<TSchema>>) => {
+    (defaults?: Partial<z.infer<TSchema>>, navigation?: NavigateOptions) => {
+      queueRef.current = undefined;
+      setQueued(undefined);
+      takePending();
       const value = resetFilters(schema, defaults);
-      const url = buildUrl(basePath, schema, value, {
-        encodeDate: true,
-        dropEmpty: true,
-        trimStrings: true,
-        stripUnknown: true,
-        ...opts.build,
-      });
-      pushUrl(url);
+      const url = buildUrl(baseUrl, schema, value, buildOptions);
+      pushUrl(url, { ...opts.navigation, ...navigation });
+    },
+    [baseUrl, schema, pushUrl, buildOptions, takePending, opts.navigation]
+  );
+
+  const flushRef = React.useRef(flush);
+  flushRef.current = flush;
+  React.useEffect(
+    () => () => {
+      const pathname = currentPathname();
+      if (queueRef.current && queueRef.current.pathname !== pathname) {
+        queueRef.current = undefined;
+      }
+      if (pendingRef.current && pendingRef.current.pathname !== pathname) {
+        takePending();
+        setPending({});
+      }
+      flushQueue();
+      flushRef.current();
     },
-    [basePath, schema, pushUrl, opts.build]
+    [basePath]
   );
 
-  return { filters, setFilters, reset } as const;
+  const flushAll = React.useCallback(() => {
+    flushQueue();
+    flush();
+  }, [flushQueue, flush]);
+
+  React.useEffect(() => {
+    window.dispatchEvent(new Event(LOCATION_EVENT));
+  }, [search]);
+
+  React.useEffect(() => {
+    const parseOptions: ParseOptions<TSchema> = {
+      namespace: opts.namespace,
+      version: opts.version,
+      ...opts.parse,
+    };
+    const version = getQueryVersion(search, parseOptions);
+    if (version === undefined || version >= parseOptions.version!.current) return;
+    const migrated = migrateQuery(search, parseOptions).toString();
+    const base =
+      merge || opts.namespace
+        ? `${basePath}${migrated ? `?${migrated}` : ""}`
+        : basePath;
+    const url = buildUrl(base, schema, urlFilters, {
+      ...buildOptions,
+      omitDefaults: true,
+    });
+    if (url !== currentUrl) {
+      pushUrl(url, { ...opts.navigation, history: "replace" });
+    }
+  }, [search]);
+
+  return {
+    filters,
+    setFilters,
+    reset,
+    flush: flushAll,
+    errors,
+    droppedKeys,
+  } as const;
+}
+
+export interface FilterSource<TSchema extends AnySchema> {
+  filters: Partial<z.infer<TSchema>>;
+  setFilters: (next: Partial<z.infer<TSchema>>) => void;
 }
 
-export function useNextAppFilters<TSchema extends AnySchema>(
+export type FieldErrors<TSchema extends AnySchema> = Partial<
+  Record<keyof z.infer<TSchema> & string, string[]>
+>;
+
+export function useFilterDraft<TSchema extends AnySchema>(
   schema: TSchema,
-  opts: UseFiltersOptions<TSchema> = {}
+  source: FilterSource<TSchema>
 ) {
+  const { filters, setFilters } = source;
+  const [draft, setDraftState] = React.useState<Partial<z.infer<TSchema>>>(filters);
+  const committed = React.useRef(filters);
+
+  React.useEffect(() => {
+    if (isEqualValue(committed.current, filters)) return;
+    committed.current = filters;
+    setDraftState(filters);
+  }, [filters]);
+
+  const { valid, errors } = React.useMemo(() => {
+    const result = schema.safeParse(draft);
+    const fieldErrors: Record<string, string[]> = {};
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        const key = String(issue.path[0] ?? "");
+        (fieldErrors[key] ??= []).push(issue.message);
+      }
+    }
+    return {
+      valid: result.success,
+      errors: fieldErrors as FieldErrors<TSchema>,
+    };
+  }, [schema, draft]);
+
+  const dirty = !isEqualValue(draft, filters);
+
+  const setDraft = React.useCallback((next: Partial<z.infer<TSchema>>) => {
+    setDraftState((prev) => ({ ...prev, ...next }));
+  }, []);
+
+  const setField = React.useCallback(
+    <K extends keyof z.infer<TSchema> & string>(
+      key: K,
+      value: z.infer<TSchema>[K] | undefined
+    ) => {
+      setDraftState((prev) => ({ ...prev, [key]: value }));
+    },
+    []
+  );
+
+  const apply = React.useCallback(() => {
+    if (!valid) return false;
+    const cleared = Object.fromEntries(
+      Object.keys(filters).map((key) => [key, undefined])
+    );
+    setFilters({ ...cleared, ...draft } as Partial<z.infer<TSchema>>);
+    return true;
+  }, [valid, filters, draft, setFilters]);
+
+  const discard = React.useCallback(() => {
+    setDraftState(filters);
+  }, [filters]);
+
+  const resetField = React.useCallback(
+    (key: keyof z.infer<TSchema> & string) => {
+      setDraftState((prev) => ({ ...prev, [key]: (filters as any)[key] }));
+    },
+    [filters]
+  );
+
+  return {
+    draft,
+    setDraft,
+    setField,
+    errors,
+    valid,
+    dirty,
+    apply,
+    discard,
+    resetField,
+  } as const;
+}
+
+function subscribeToLocation(callback: () => void) {
+  window.addEventListener("popstate", callback);
+  window.addEventListener(LOCATION_EVENT, callback);
+  return () => {
+    window.removeEventListener("popstate", callback);
+    window.removeEventListener(LOCATION_EVENT, callback);
+  };
+}
+
+function currentSearch(): string {
+  return typeof window !== "undefined" ? window.location.search : "";
+}
+
+function navigateWindow(url: string, navigation: NavigateOptions) {
+  const method = navigation.history === "replace" ? "replaceState" : "pushState";
+  window.history[method](window.history.state, "", url);
+}
+
+const parsedSearches = new WeakMap<
+  AnySchema,
+  { search: string; filters: Record<string, any> }
+>();
+
+export interface UseFilterParamOptions<TSchema extends AnySchema> {
+  parse?: ParseOptions<TSchema>;
+  build?: BuildOptions<TSchema>;
+  namespace?: string;
+  navigation?: NavigateOptions;
+  navigate?: (url: string, navigation: NavigateOptions) => void;
+}
+
+export type FilterParamUpdate<T> = T | undefined | ((prev: T | undefined) => T | undefined);
+
+export function useFilterParam<
+  TSchema extends AnySchema,
+  K extends keyof z.infer<TSchema> & string,
+>(schema: TSchema, key: K, opts: UseFilterParamOptions<TSchema> = {}) {
+  type Value = z.infer<TSchema>[K];
+
+  const readFilters = React.useCallback(
+    (search: string): Record<string, any> => {
+      const shared = !opts.parse && !opts.namespace;
+      const cached = shared ? parsedSearches.get(schema) : undefined;
+      if (cached && cached.search === search) return cached.filters;
+      const filters =
+        safeParseQuery(schema, search, {
+          coerceTypes: true,
+          dropEmpty: true,
+          trimStrings: true,
+          stripUnknown: true,
+          namespace: opts.namespace,
+          ...opts.parse,
+        }).data ?? {};
+      if (shared) parsedSearches.set(schema, { search, filters });
+      return filters;
+    },
+    [schema, opts.parse, opts.namespace]
+  );
+
+  const snapshot = React.useRef<{ search: string; value: Value } | undefined>(
+    undefined
+  );
+
+  const getSnapshot = (): Value => {
+    const search = currentSearch();
+    const cached = snapshot.current;
+    if (cached && cached.search === search) return cached.value;
+    const value = readFilters(search)[key];
+    if (cached && isEqualValue(cached.value, value)) {
+      cached.search = search;
+      return cached.value;
+    }
+    snapshot.current = { search, value };
+    return value;
+  };
+
+  const value = React.useSyncExternalStore(
+    subscribeToLocation,
+    getSnapshot,
+    getSnapshot
+  );
+
+  const setValue = React.useCallback(
+    (update: FilterParamUpdate<Value>, navigation?: NavigateOptions) => {
+      const search = currentSearch();
+      const filters = readFilters(search);
+      const next =
+        typeof update === "function"
+          ? (update as (prev: Value | undefined) => Value | undefined)(filters[key])
+          : update;
+      const { pathname, hash } = window.location;
+      const url = buildUrl(
+        `${pathname}${search}${hash}`,
+        schema,
+        { ...filters, [key]: next } as Partial<z.infer<TSchema>>,
+        {
+          encodeDate: true,
+          dropEmpty: true,
+          trimStrings: true,
+          stripUnknown: true,
+          omitDefaults: true,
+          namespace: opts.namespace,
+          merge: true,
+          ...opts.build,
+        }
+      );
+      (opts.navigate ?? navigateWindow)(url, { ...opts.navigation, ...navigation });
+      window.dispatchEvent(new Event(LOCATION_EVENT));
+    },
+    [schema, key, readFilters, opts.build, opts.namespace, opts.navigation, opts.navigate]
+  );
+
+  return [value, setValue] as const;
+}
+
+export function useNextAppFilters<
+  TSchema extends AnySchema,
+  TSafe extends boolean | undefined = undefined,
+>(schema: TSchema, opts: UseFiltersOptions<TSchema, TSafe> = {}) {
   try {
 
     const nextNav = require("next/navigation") as any;
@@ -76,7 +570,11 @@ export function useNextAppFilters<TSchema extends AnySchema>(
     return useFiltersGeneric(
       schema,
       () => `?${searchParams.toString()}`,
-      (url) => router.push(url),
+      (url, navigation = {}) =>
+        router[navigation.history === "replace" ? "replace" : "push"](url, {
+          scroll: navigation.scroll,
+          ...navigation.routerOptions,
+        }),
       opts
     );
   } catch (error) {
@@ -86,10 +584,10 @@ export function useNextAppFilters<TSchema extends AnySchema>(
   }
 }
 
-export function useNextPagesFilters<TSchema extends AnySchema>(
-  schema: TSchema,
-  opts: UseFiltersOptions<TSchema> = {}
-) {
+export function useNextPagesFilters<
+  TSchema extends AnySchema,
+  TSafe extends boolean | undefined = undefined,
+>(schema: TSchema, opts: UseFiltersOptions<TSchema, TSafe> = {}) {
   try {
 
     const nextRouter = require("next/router") as any;
@@ -97,8 +595,17 @@ export function useNextPagesFilters<TSchema extends AnySchema>(
     return useFiltersGeneric(
       schema,
       () => (typeof window !== "undefined" ? window.location.search : ""),
-      (url) => router.push(url, undefined, { shallow: true } as any),
-      { basePath: router.pathname, ...opts }
+      (url, navigation = {}) =>
+        router[navigation.history === "replace" ? "replace" : "push"](
+          url,
+          undefined,
+          {
+            shallow: navigation.shallow ?? true,
+            scroll: navigation.scroll,
+            ...navigation.routerOptions,
+          } as any
+        ),
+      { basePath: router.asPath.split(/[?#]/)[0], ...opts }
     );
   } catch (error) {
     throw new Error(
@@ -107,10 +614,10 @@ export function useNextPagesFilters<TSchema extends AnySchema>(
   }
 }
 
-export function useReactRouterFilters<TSchema extends AnySchema>(
-  schema: TSchema,
-  opts: UseFiltersOptions<TSchema> = {}
-) {
+export function useReactRouterFilters<
+  TSchema extends AnySchema,
+  TSafe extends boolean | undefined = undefined,
+>(schema: TSchema, opts: UseFiltersOptions<TSchema, TSafe> = {}) {
   try {
 
     const rr = require("react-router-dom") as any;
@@ -119,7 +626,12 @@ export function useReactRouterFilters<TSchema extends AnySchema>(
     return useFiltersGeneric(
       schema,
       () => location.search,
-      (url) => navigate(url, { replace: false } as any),
+      (url, navigation = {}) =>
+        navigate(url, {
+          replace: navigation.history === "replace",
+          preventScrollReset: navigation.scroll === false ? true : undefined,
+          ...navigation.routerOptions,
+        } as any),
       { basePath: location.pathname, ...opts }
     );
   } catch (error) {
@@ -0,0 +1,37 @@
+import { z } from "zod";
+import type { PaginationOptions } from "./types";
+import { registerRangeType, registerSortType } from "./introspect";
+
+export function rangeSchema<TBound extends z.ZodTypeAny>(bound: TBound) {
+  const schema = z
+    .object({ min: bound.optional(), max: bound.optional() })
+    .refine(
+      (range) =>
+        range.min === undefined ||
+        range.max === undefined ||
+        (range.min as any) <= (range.max as any),
+      { message: "Range min must not be greater than max", path: ["max"] }
+    );
+  registerRangeType(schema, bound);
+  return schema;
+}
+
+export function paginationSchema({
+  defaultPageSize = 20,
+  maxPageSize = 100,
+}: PaginationOptions = {}) {
+  return {
+    page: z.number().int().min(1).default(1),
+    pageSize: z.number().int().min(1).max(maxPageSize).default(defaultPageSize),
+  };
+}
+
+export function sortSchema<const TFields extends readonly [string, ...string[]]>(
+  fields: TFields
+) {
+  const schema = z.array(
+    z.object({ field: z.enum(fields), dir: z.enum(["asc", "desc"]) })
+  );
+  registerSortType(schema, fields);
+  return schema;
+}
\ No newline at end of file
@@ -5,29 +5,119 @@ export const repeatSerializer: Serializer = {
   deserializeArray: (_key, entries) => entries,
 };
 
-export const commaSerializer: Serializer = {
-  serializeArray: (key, values) => [[key, values.join(",")]],
-  deserializeArray: (_key, entries) =>
-    entries[0] ? entries[0].split(",") : [],
+export const bracketSerializer: Serializer = {
+  serializeArray: (key, values) => values.map((v) => [`${key}[]`, String(v)]),
+  deserializeArray: (_key, entries) => entries,
+  matchKey: (key, urlKey) => urlKey === `${key}[]`,
+};
+
+export const indexSerializer: Serializer = {
+  serializeArray: (key, values) =>
+    values.map((v, i) => [`${key}[${i}]`, String(v)]),
+  deserializeArray: (_key, entries) => entries,
+  matchKey: (key, urlKey) =>
+    urlKey.startsWith(key) && /^\[\d+\]$/.test(urlKey.slice(key.length)),
 };
 
+function escapeValue(value: string, delimiter: string, escape: string) {
+  return value
+    .split(escape)
+    .join(escape + escape)
+    .split(delimiter)
+    .join(escape + delimiter);
+}
+
+function splitEscaped(value: string, delimiter: string, escape: string | false) {
+  const parts: string[] = [];
+  let current = "";
+  let i = 0;
+
+  while (i < value.length) {
+    if (escape && value.startsWith(escape, i)) {
+      const next = i + escape.length;
+      if (value.startsWith(delimiter, next)) {
+        current += delimiter;
+        i = next + delimiter.length;
+      } else if (value.startsWith(escape, next)) {
+        current += escape;
+        i = next + escape.length;
+      } else {
+        current += escape;
+        i = next;
+      }
+    } else if (value.startsWith(delimiter, i)) {
+      parts.push(current);
+      current = "";
+      i += delimiter.length;
+    } else {
+      current += value[i];
+      i++;
+    }
+  }
+
+  parts.push(current);
+  return parts;
+}
+
+export function createDelimitedSerializer(
+  delimiter: string,
+  escape: string | false = "\\"
+): Serializer {
+  return {
+    serializeArray: (key, values) => [
+      [
+        key,
+        values
+          .map((v) => (escape ? escapeValue(String(v), delimiter, escape) : String(v)))
+          .join(delimiter),
+      ],
+    ],
+    deserializeArray: (_key, entries) =>
+      entries.flatMap((entry) =>
+        entry ? splitEscaped(entry, delimiter, escape) : []
+      ),
+  };
+}
+
+export const commaSerializer: Serializer = createDelimitedSerializer(",");
+
+export const pipeSerializer: Serializer = createDelimitedSerializer("|");
+
 export const jsonSerializer: Serializer = {
   serializeArray: (key, values) => [[key, JSON.stringify(values)]],
   deserializeArray: (_key, entries) => {
-    try {
-      return JSON.parse(entries[0] ?? "[]");
-    } catch {
-      return [];
+    const parsed = JSON.parse(entries[0] ?? "[]");
+    if (!Array.isArray(parsed)) {
+      throw new SyntaxError("Expected a JSON array");
     }
+    return parsed;
   },
 };
 
+const customSerializers = new Map<string, Serializer>();
+
+export function registerArraySerializer(
+  name: string,
+  serializer: Serializer
+): void {
+  customSerializers.set(name, serializer);
+}
+
 export function resolveArraySerializer(fmt?: ArrayFormat): Serializer {
+  const custom = fmt ? customSerializers.get(fmt) : undefined;
+  if (custom) return custom;
+
   switch (fmt) {
     case "json":
       return jsonSerializer;
     case "comma":
       return commaSerializer;
+    case "pipe":
+      return pipeSerializer;
+    case "bracket":
+      return bracketSerializer;
+    case "index":
+      return indexSerializer;
     case "repeat":
     default:
       return repeatSerializer;
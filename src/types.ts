@@ -2,13 +2,56 @@ import type { z } from "zod";
 
 export type Primitive = string | number | boolean | null | undefined | Date;
 
-export type ArrayFormat = "repeat" | "comma" | "json";
+export type ArrayFormat =
+  | "repeat"
+  | "comma"
+  | "pipe"
+  | "json"
+  | "bracket"
+  | "index"
+  | (string & {});
+
+export type NestedFormat = "bracket" | "dot";
 
 export type Serializer = {
   serializeArray?: (key: string, values: unknown[]) => [string, string][];
   deserializeArray?: (key: string, entries: string[]) => unknown[];
+  matchKey?: (key: string, urlKey: string) => boolean;
 };
 
+export interface Codec<T = any> {
+  encode: (value: T) => string;
+  decode: (value: string) => unknown;
+}
+
+export type FieldCodecs<TSchema extends z.ZodTypeAny> = {
+  [K in keyof z.infer<TSchema> & string]?: Codec<
+    Exclude<z.infer<TSchema>[K], undefined>
+  >;
+};
+
+export interface PackOptions<TSchema extends z.ZodTypeAny> {
+
+  param?: string;
+
+  keys?: ReadonlyArray<keyof z.infer<TSchema> & string>;
+
+  compress?: boolean;
+}
+
+export type QueryMigration = (
+  params: URLSearchParams
+) => URLSearchParams | void;
+
+export interface VersionOptions {
+
+  current: number;
+
+  param?: string;
+
+  migrations?: Record<number, QueryMigration>;
+}
+
 export interface ParseOptions<TSchema extends z.ZodTypeAny> {
 
   stripUnknown?: boolean;
@@ -24,12 +67,76 @@ export interface ParseOptions<TSchema extends z.ZodTypeAny> {
   arrayKeyFormat?: Partial<
     Record<keyof z.infer<TSchema> & string, ArrayFormat>
   >;
+
+  nestedFormat?: NestedFormat;
+
+  keyAliases?: Partial<
+    Record<keyof z.infer<TSchema> & string, string | string[]>
+  >;
+
+  namespace?: string;
+
+  codecs?: FieldCodecs<TSchema>;
+
+  pack?: boolean | PackOptions<TSchema>;
+
+  version?: VersionOptions;
 }
 
 export interface BuildOptions<TSchema extends z.ZodTypeAny>
   extends Omit<ParseOptions<TSchema>, "coerceTypes"> {
 
   encodeDate?: boolean;
+
+  omitDefaults?: boolean;
+
+  maxLength?: number;
+
+  lengthStrategies?: LengthStrategy[];
+
+  merge?: boolean;
+
+  canonical?: boolean | CanonicalOptions<TSchema>;
+}
+
+export type CanonicalOrder = "schema" | "alpha";
+
+export interface CanonicalOptions<TSchema extends z.ZodTypeAny> {
+
+  order?: CanonicalOrder;
+
+  setKeys?: ReadonlyArray<keyof z.infer<TSchema> & string>;
+}
+
+export type LengthStrategy = "omitDefaults" | "compactArrays" | "pack";
+
+export interface UrlFitResult {
+
+  url: string;
+
+  fits: boolean;
+
+  strategies: LengthStrategy[];
+
+  affectedFields: string[];
+
+  fieldsByStrategy: Partial<Record<LengthStrategy, string[]>>;
+}
+
+export interface PaginationOptions {
+
+  defaultPageSize?: number;
+
+  maxPageSize?: number;
+}
+
+export type SortDirection = "asc" | "desc";
+
+export interface SortEntry<TField extends string = string> {
+
+  field: TField;
+
+  dir: SortDirection;
 }
 
 export interface CleanOptions {
@@ -41,6 +148,102 @@ export interface CleanOptions {
 
 export type AnySchema = z.ZodTypeAny;
 
+export type SearchParamsRecord = Record<string, string | string[] | undefined>;
+
+export type SearchParamsInput = SearchParamsRecord | Promise<SearchParamsRecord>;
+
+export interface UrlFiltersOptions<TSchema extends z.ZodTypeAny> {
+
+  parse?: ParseOptions<TSchema>;
+
+  build?: BuildOptions<TSchema>;
+}
+
+export interface SafeParseQueryResult<TSchema extends z.ZodTypeAny> {
+
+  data: z.infer<TSchema> | undefined;
+
+  partial: Partial<z.infer<TSchema>>;
+
+  errors: z.ZodIssue[];
+
+  droppedKeys: string[];
+}
+
+export interface FilterIssue {
+
+  path: string;
+
+  code: string;
+
+  message: string;
+}
+
+export interface FilterErrorPayload {
+
+  status: 400;
+
+  error: "Bad Request";
+
+  message: string;
+
+  issues: FilterIssue[];
+}
+
+export type RequestFiltersResult<TSchema extends z.ZodTypeAny> =
+  | { success: true; data: z.infer<TSchema> }
+  | { success: false; error: FilterErrorPayload };
+
+export interface JsonSchema {
+
+  type?: string | string[];
+
+  format?: string;
+
+  enum?: unknown[];
+
+  const?: unknown;
+
+  items?: JsonSchema;
+
+  properties?: Record<string, JsonSchema>;
+
+  required?: string[];
+
+  anyOf?: JsonSchema[];
+
+  default?: unknown;
+
+  minimum?: number;
+
+  maximum?: number;
+
+  pattern?: string;
+
+  description?: string;
+}
+
+export type OpenApiParameterStyle = "form" | "pipeDelimited" | "deepObject";
+
+export interface OpenApiParameter {
+
+  name: string;
+
+  in: "query";
+
+  required: boolean;
+
+  description?: string;
+
+  style?: OpenApiParameterStyle;
+
+  explode?: boolean;
+
+  schema?: JsonSchema;
+
+  content?: Record<string, { schema: JsonSchema }>;
+}
+
 export interface DebouncedFunction<T extends (...args: any[]) => any> {
   (...args: Parameters<T>): Promise<ReturnType<T>>;
   cancel(): void;
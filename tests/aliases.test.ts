@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { buildQuery, parseQuery } from "../src/core";
+
+const schema = z.object({
+  search: z.string().optional(),
+  categoryIds: z.array(z.number()).optional(),
+  price: z.object({ min: z.number().optional() }).optional(),
+  page: z.number().optional(),
+});
+
+describe("key aliases", () => {
+  it("writes the alias instead of the field name", () => {
+    const qs = buildQuery(
+      schema,
+      { search: "shoe", categoryIds: [1, 2], page: 2 },
+      { keyAliases: { search: "q", categoryIds: "cat" }, arrayFormat: "comma" }
+    );
+    expect(qs.toString()).toBe("q=shoe&cat=1%2C2&page=2");
+  });
+
+  it("reads the alias back into the field name", () => {
+    const parsed = parseQuery(schema, "?q=shoe&cat=1,2", {
+      keyAliases: { search: "q", categoryIds: "cat" },
+      arrayKeyFormat: { categoryIds: "comma" },
+      coerceTypes: true,
+    });
+    expect(parsed).toEqual({ search: "shoe", categoryIds: [1, 2] });
+  });
+
+  it("accepts legacy aliases but writes the first one", () => {
+    const keyAliases = { search: ["q", "query", "search"] };
+    expect(parseQuery(schema, "?query=old", { keyAliases })).toEqual({
+      search: "old",
+    });
+    expect(parseQuery(schema, "?search=older&q=new", { keyAliases })).toEqual({
+      search: "new",
+    });
+    expect(buildQuery(schema, { search: "x" }, { keyAliases }).toString()).toBe(
+      "q=x"
+    );
+  });
+
+  it("does not leak legacy keys as unknown params", () => {
+    const parsed = parseQuery(
+      z.object({ search: z.string().optional() }).passthrough(),
+      "?q=new&query=old",
+      { keyAliases: { search: ["q", "query"] } }
+    );
+    expect(parsed).toEqual({ search: "new" });
+  });
+
+  it("prefixes nested keys with the alias", () => {
+    const keyAliases = { price: "p" };
+    const qs = buildQuery(schema, { price: { min: 5 } }, { keyAliases });
+    expect(qs.get("p[min]")).toBe("5");
+    expect(parseQuery(schema, qs, { keyAliases, coerceTypes: true })).toEqual({
+      price: { min: 5 },
+    });
+  });
+});
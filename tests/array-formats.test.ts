@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { buildQuery, parseQuery, safeParseQuery } from "../src/core";
+import {
+  createDelimitedSerializer,
+  registerArraySerializer,
+} from "../src/serializers";
+
+const schema = z.object({
+  tags: z.array(z.string()).optional(),
+  ids: z.array(z.number()).optional(),
+});
+
+describe("array formats", () => {
+  it("builds and parses bracket arrays", () => {
+    const qs = buildQuery(schema, { tags: ["a", "b"] }, { arrayFormat: "bracket" });
+    expect(decodeURIComponent(qs.toString())).toBe("tags[]=a&tags[]=b");
+    expect(parseQuery(schema, qs, { arrayFormat: "bracket" })).toEqual({
+      tags: ["a", "b"],
+    });
+  });
+
+  it("builds and parses indexed arrays in index order", () => {
+    const qs = buildQuery(schema, { ids: [5, 6] }, { arrayFormat: "index" });
+    expect(decodeURIComponent(qs.toString())).toBe("ids[0]=5&ids[1]=6");
+    const parsed = parseQuery(
+      schema,
+      "ids[10]=3&ids[2]=2&ids[0]=1",
+      { arrayFormat: "index", coerceTypes: true }
+    );
+    expect(parsed.ids).toEqual([1, 2, 3]);
+  });
+
+  it("escapes the delimiter in comma and pipe formats", () => {
+    const tags = ["a,b", "c|d", "e\\f"];
+    for (const arrayFormat of ["comma", "pipe"]) {
+      const qs = buildQuery(schema, { tags }, { arrayFormat });
+      expect(parseQuery(schema, qs, { arrayFormat }).tags).toEqual(tags);
+    }
+    const qs = buildQuery(schema, { tags: ["a|b", "c"] }, { arrayFormat: "pipe" });
+    expect(qs.get("tags")).toBe("a\\|b|c");
+  });
+
+  it("supports a custom delimiter without escaping", () => {
+    registerArraySerializer("semicolon", createDelimitedSerializer(";", false));
+    const qs = buildQuery(schema, { ids: [1, 2] }, { arrayFormat: "semicolon" });
+    expect(qs.get("ids")).toBe("1;2");
+    expect(
+      parseQuery(schema, "ids=1;2", { arrayFormat: "semicolon", coerceTypes: true })
+    ).toEqual({ ids: [1, 2] });
+  });
+
+  it("uses registered serializers per key", () => {
+    registerArraySerializer("plus", {
+      serializeArray: (key, values) => [[key, values.join("+")]],
+      deserializeArray: (_key, entries) => entries[0].split("+"),
+    });
+    const qs = buildQuery(
+      schema,
+      { tags: ["x", "y"], ids: [1] },
+      { arrayKeyFormat: { tags: "plus" } }
+    );
+    expect(qs.toString()).toBe("tags=x%2By&ids=1");
+    expect(
+      parseQuery(schema, qs, {
+        arrayKeyFormat: { tags: "plus" },
+        coerceTypes: true,
+      })
+    ).toEqual({ tags: ["x", "y"], ids: [1] });
+  });
+
+  it("reports malformed json arrays as validation errors", () => {
+    const result = safeParseQuery(schema, "tags=[oops&ids=[1]", {
+      arrayFormat: "json",
+      coerceTypes: true,
+    });
+    expect(result.data).toEqual({ ids: [1] });
+    expect(result.droppedKeys).toEqual(["tags"]);
+  });
+});
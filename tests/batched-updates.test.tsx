@@ -0,0 +1,143 @@
+import { describe, it, expect, afterEach } from "vitest";
+import React from "react";
+import { render, screen, fireEvent, cleanup } from "@testing-library/react";
+import { z } from "zod";
+import { useFiltersGeneric } from "../src/react";
+
+const schema = z.object({
+  page: z.number().optional(),
+  status: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+});
+
+afterEach(() => cleanup());
+
+let pushed: string[] = [];
+
+function Widget({ search }: { search: string }) {
+  const { filters, setFilters } = useFiltersGeneric(
+    schema,
+    () => search,
+    (url) => { pushed.push(url); },
+    { basePath: "/list" }
+  );
+
+  return (
+    <div>
+      <div data-testid="page">{filters.page ?? ""}</div>
+      <button
+        onClick={() => {
+          setFilters({ status: "open" });
+          setFilters({ tags: ["a"] });
+        }}
+      >
+        both
+      </button>
+      <button
+        onClick={() => {
+          setFilters((prev) => ({ page: (prev.page ?? 0) + 1 }));
+          setFilters((prev) => ({ page: (prev.page ?? 0) + 1 }));
+        }}
+      >
+        twice
+      </button>
+      <button
+        onClick={() => {
+          setFilters({ status: "closed" });
+          setFilters((prev) => ({ tags: [...(prev.tags ?? []), prev.status!] }));
+        }}
+      >
+        chained
+      </button>
+    </div>
+  );
+}
+
+function Popover({ basePath, onClose }: { basePath: string; onClose: () => void }) {
+  const { setFilters } = useFiltersGeneric(
+    schema,
+    () => "?page=2",
+    (url) => { pushed.push(url); },
+    { basePath }
+  );
+
+  return (
+    <div>
+      <button
+        onClick={() => {
+          setFilters({ status: "open" });
+          onClose();
+        }}
+      >
+        apply
+      </button>
+      <button
+        onClick={() => {
+          setFilters({ status: "open" });
+          window.history.pushState(null, "", "/elsewhere");
+          onClose();
+        }}
+      >
+        leave
+      </button>
+    </div>
+  );
+}
+
+function Toolbar({ basePath = "/list" }: { basePath?: string }) {
+  const [open, setOpen] = React.useState(true);
+  return open ? (
+    <Popover basePath={basePath} onClose={() => setOpen(false)} />
+  ) : (
+    <div>closed</div>
+  );
+}
+
+describe("batched setFilters", () => {
+  it("merges calls from one handler into a single navigation", () => {
+    pushed = [];
+    render(<Widget search="?page=2" />);
+    fireEvent.click(screen.getByText("both"));
+    expect(pushed).toEqual(["/list?page=2&status=open&tags=a"]);
+  });
+
+  it("feeds functional updaters the latest queued state", () => {
+    pushed = [];
+    render(<Widget search="?page=2" />);
+    fireEvent.click(screen.getByText("twice"));
+    expect(pushed).toEqual(["/list?page=4"]);
+  });
+
+  it("lets updaters see earlier object updates in the same tick", () => {
+    pushed = [];
+    render(<Widget search="?tags=x" />);
+    fireEvent.click(screen.getByText("chained"));
+    expect(pushed).toEqual(["/list?tags=x&tags=closed&status=closed"]);
+  });
+
+  it("writes queued updates when the handler also unmounts the hook", () => {
+    pushed = [];
+    window.history.replaceState(null, "", "/list");
+    render(<Toolbar />);
+    fireEvent.click(screen.getByText("apply"));
+    expect(screen.getByText("closed")).toBeTruthy();
+    expect(pushed).toEqual(["/list?page=2&status=open"]);
+  });
+
+  it("writes queued updates on unmount when basePath is a route pattern", () => {
+    pushed = [];
+    window.history.replaceState(null, "", "/products/1");
+    render(<Toolbar basePath="/products/[id]" />);
+    fireEvent.click(screen.getByText("apply"));
+    expect(pushed).toEqual(["/products/[id]?page=2&status=open"]);
+  });
+
+  it("drops queued updates when the handler leaves the page", () => {
+    pushed = [];
+    window.history.replaceState(null, "", "/list");
+    render(<Toolbar />);
+    fireEvent.click(screen.getByText("leave"));
+    expect(screen.getByText("closed")).toBeTruthy();
+    expect(pushed).toEqual([]);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { buildQuery, canonicalizeUrl, isSameQuery } from "../src/core";
+
+const schema = z.object({
+  search: z.string().optional(),
+  page: z.number().default(1),
+  inStock: z.boolean().optional(),
+  tags: z.array(z.string()).optional(),
+  since: z.date().optional(),
+  price: z.object({ min: z.number().optional(), max: z.number().optional() }).optional(),
+});
+
+describe("canonical output", () => {
+  it("orders keys by schema field order", () => {
+    const a = buildQuery(schema, { page: 2, search: "x" }, { canonical: true });
+    const b = buildQuery(schema, { search: "x", page: 2 }, { canonical: true });
+    expect(a.toString()).toBe("search=x&page=2");
+    expect(b.toString()).toBe(a.toString());
+  });
+
+  it("orders nested keys and unknown keys", () => {
+    const qs = buildQuery(
+      schema,
+      { zeta: "1", price: { max: 5, min: 1 }, alpha: "2" } as any,
+      { canonical: true }
+    );
+    expect(decodeURIComponent(qs.toString())).toBe(
+      "price[min]=1&price[max]=5&alpha=2&zeta=1"
+    );
+  });
+
+  it("orders keys alphabetically", () => {
+    const qs = buildQuery(
+      schema,
+      { search: "x", page: 2, inStock: true },
+      { canonical: { order: "alpha" } }
+    );
+    expect(qs.toString()).toBe("inStock=true&page=2&search=x");
+  });
+
+  it("sorts set fields only", () => {
+    const options = { canonical: { setKeys: ["tags" as const] } };
+    expect(
+      buildQuery(schema, { tags: ["b", "a"] }, options).getAll("tags")
+    ).toEqual(["a", "b"]);
+    expect(
+      buildQuery(schema, { tags: ["b", "a"] }, { canonical: true }).getAll("tags")
+    ).toEqual(["b", "a"]);
+  });
+
+  it("always encodes dates as ISO strings", () => {
+    const since = new Date("2024-01-01T00:00:00.000Z");
+    expect(buildQuery(schema, { since }, { canonical: true }).get("since")).toBe(
+      "2024-01-01T00:00:00.000Z"
+    );
+  });
+});
+
+describe("isSameQuery", () => {
+  it("ignores key order and encoding differences", () => {
+    expect(isSameQuery(schema, "?page=2&inStock=1", "inStock=true&page=2")).toBe(
+      true
+    );
+    expect(isSameQuery(schema, "?page=1", "")).toBe(true);
+    expect(isSameQuery(schema, "?page=2", "?page=3")).toBe(false);
+  });
+
+  it("compares set fields regardless of order", () => {
+    const options = { canonical: { setKeys: ["tags" as const] } };
+    expect(isSameQuery(schema, "tags=a&tags=b", "tags=b&tags=a", options)).toBe(
+      true
+    );
+    expect(isSameQuery(schema, "tags=a&tags=b", "tags=b&tags=a")).toBe(false);
+  });
+});
+
+describe("canonicalizeUrl", () => {
+  it("rewrites the query and keeps the path and hash", () => {
+    expect(
+      canonicalizeUrl(
+        schema,
+        "https://shop.example/list?inStock=yes&utm=1&search=%20x%20&page=2#top"
+      )
+    ).toBe("https://shop.example/list?search=x&page=2&inStock=true#top");
+  });
+
+  it("combines with omitDefaults", () => {
+    expect(
+      canonicalizeUrl(schema, "/list?page=1&search=x", { omitDefaults: true })
+    ).toBe("/list?search=x");
+  });
+});
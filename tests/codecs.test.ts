@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { buildQuery, parseQuery, safeParseQuery } from "../src/core";
+import type { Codec } from "../src/types";
+
+const bboxSchema = z.tuple([z.number(), z.number(), z.number(), z.number()]);
+
+const schema = z.object({
+  bbox: bboxSchema.optional(),
+  price: z.object({ amount: z.number(), currency: z.string() }).optional(),
+  color: z.string().regex(/^#[0-9a-f]{6}$/).optional(),
+  page: z.number().optional(),
+});
+
+const bbox: Codec<z.infer<typeof bboxSchema>> = {
+  encode: (value) => value.join(","),
+  decode: (value) => value.split(",").map(Number),
+};
+
+const money: Codec<{ amount: number; currency: string }> = {
+  encode: (value) => `${value.amount}${value.currency}`,
+  decode: (value) => {
+    const match = /^(\d+(?:\.\d+)?)([A-Z]{3})$/.exec(value);
+    if (!match) throw new Error("Invalid money value");
+    return { amount: Number(match[1]), currency: match[2] };
+  },
+};
+
+const color: Codec<string> = {
+  encode: (value) => value.slice(1),
+  decode: (value) => `#${value}`,
+};
+
+const codecs = { bbox, price: money, color };
+
+describe("field codecs", () => {
+  it("encodes fields with their codec", () => {
+    const qs = buildQuery(
+      schema,
+      {
+        bbox: [1.2, 3.4, 5.6, 7.8],
+        price: { amount: 100, currency: "USD" },
+        color: "#ff0000",
+        page: 2,
+      },
+      { codecs }
+    );
+    expect(decodeURIComponent(qs.toString())).toBe(
+      "bbox=1.2,3.4,5.6,7.8&price=100USD&color=ff0000&page=2"
+    );
+  });
+
+  it("decodes fields with their codec", () => {
+    const parsed = parseQuery(
+      schema,
+      "bbox=1.2,3.4,5.6,7.8&price=100USD&color=ff0000&page=2",
+      { codecs, coerceTypes: true }
+    );
+    expect(parsed).toEqual({
+      bbox: [1.2, 3.4, 5.6, 7.8],
+      price: { amount: 100, currency: "USD" },
+      color: "#ff0000",
+      page: 2,
+    });
+  });
+
+  it("hands values that fail to decode to the schema", () => {
+    const result = safeParseQuery(schema, "price=lots&page=1", {
+      codecs,
+      coerceTypes: true,
+    });
+    expect(result.data).toEqual({ page: 1 });
+    expect(result.droppedKeys).toEqual(["price"]);
+  });
+
+  it("combines with key aliases", () => {
+    const options = { codecs, keyAliases: { bbox: "b" } };
+    const qs = buildQuery(schema, { bbox: [1, 2, 3, 4] }, options);
+    expect(qs.get("b")).toBe("1,2,3,4");
+    expect(parseQuery(schema, qs, options)).toEqual({ bbox: [1, 2, 3, 4] });
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { buildQuery, parseQuery } from "../src/core";
+
+enum Status {
+  Active = 1,
+  Archived = 2,
+}
+
+enum Color {
+  Red = "red",
+  Blue = "blue",
+}
+
+const schema = z.object({
+  limit: z.union([z.number(), z.literal("all")]).optional(),
+  status: z.nativeEnum(Status).optional(),
+  color: z.nativeEnum(Color).optional(),
+  order: z.enum(["asc", "desc"]).optional(),
+  five: z.literal(5).optional(),
+  flag: z.literal(true).optional(),
+  big: z.bigint().optional(),
+  score: z.number().nullable().optional(),
+  statuses: z.array(z.nativeEnum(Status)).optional(),
+  limits: z.array(z.union([z.number(), z.literal("all")])).optional(),
+});
+
+const parse = (qs: string) => parseQuery(schema, qs, { coerceTypes: true });
+
+describe("coercion of extended types", () => {
+  it("tries union members in order", () => {
+    expect(parse("limit=20").limit).toBe(20);
+    expect(parse("limit=all").limit).toBe("all");
+    expect(() => parse("limit=some")).toThrow();
+  });
+
+  it("coerces numeric and string native enums", () => {
+    expect(parse("status=2").status).toBe(Status.Archived);
+    expect(parse("color=blue").color).toBe(Color.Blue);
+    expect(() => parse("status=Active")).toThrow();
+  });
+
+  it("keeps string enums as-is", () => {
+    expect(parse("order=desc").order).toBe("desc");
+  });
+
+  it("coerces literals", () => {
+    expect(parse("five=5").five).toBe(5);
+    expect(parse("flag=true").flag).toBe(true);
+    expect(() => parse("five=6")).toThrow();
+  });
+
+  it("coerces bigint", () => {
+    expect(parse("big=9007199254740993").big).toBe(9007199254740993n);
+    expect(() => parse("big=1.5")).toThrow();
+  });
+
+  it("reads null for nullable types", () => {
+    expect(parse("score=null").score).toBeNull();
+    expect(parse("score=3").score).toBe(3);
+  });
+
+  it("coerces array elements the same way", () => {
+    expect(parse("statuses=1&statuses=2").statuses).toEqual([
+      Status.Active,
+      Status.Archived,
+    ]);
+    expect(parse("limits=10&limits=all").limits).toEqual([10, "all"]);
+  });
+
+  it("round-trips through buildQuery", () => {
+    const filters = {
+      limit: "all" as const,
+      status: Status.Active,
+      big: 12n,
+      score: null,
+    };
+    expect(parse(buildQuery(schema, filters).toString())).toEqual(filters);
+  });
+});
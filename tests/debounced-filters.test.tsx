@@ -0,0 +1,101 @@
+import { describe, it, expect, afterEach, beforeEach, vi } from "vitest";
+import React from "react";
+import { render, screen, fireEvent, cleanup, act } from "@testing-library/react";
+import { z } from "zod";
+import { useFiltersGeneric } from "../src/react";
+
+const schema = z.object({
+  search: z.string().optional(),
+  status: z.string().optional(),
+});
+
+let pushed: string[] = [];
+
+beforeEach(() => {
+  pushed = [];
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  cleanup();
+  vi.useRealTimers();
+});
+
+function SearchBox() {
+  const [search, setSearch] = React.useState("");
+  const { filters, setFilters, flush } = useFiltersGeneric(
+    schema,
+    () => search,
+    (url) => {
+      pushed.push(url);
+      setSearch(url.slice(url.indexOf("?") + 1));
+    },
+    { debounce: { search: 400 } }
+  );
+
+  return (
+    <div>
+      <input
+        aria-label="search"
+        value={filters.search ?? ""}
+        onChange={(e) => setFilters({ search: e.target.value })}
+      />
+      <div data-testid="status">{filters.status ?? ""}</div>
+      <button onClick={() => setFilters({ status: "open" })}>open</button>
+      <button onClick={() => flush()}>flush</button>
+    </div>
+  );
+}
+
+const type = (value: string) =>
+  fireEvent.change(screen.getByLabelText("search"), { target: { value } });
+
+describe("debounced setFilters", () => {
+  it("shows the typed value right away and writes once", () => {
+    render(<SearchBox />);
+    type("b");
+    type("bo");
+    type("boo");
+    expect((screen.getByLabelText("search") as HTMLInputElement).value).toBe("boo");
+    expect(pushed).toEqual([]);
+
+    act(() => {
+      vi.advanceTimersByTime(399);
+    });
+    expect(pushed).toEqual([]);
+    act(() => {
+      vi.advanceTimersByTime(1);
+    });
+    expect(pushed).toEqual(["/?search=boo"]);
+    expect((screen.getByLabelText("search") as HTMLInputElement).value).toBe("boo");
+  });
+
+  it("writes pending values with a non-debounced change and cancels the timer", () => {
+    render(<SearchBox />);
+    type("hat");
+    fireEvent.click(screen.getByText("open"));
+    expect(pushed).toEqual(["/?search=hat&status=open"]);
+    act(() => {
+      vi.advanceTimersByTime(1000);
+    });
+    expect(pushed).toHaveLength(1);
+  });
+
+  it("flushes pending writes on unmount", () => {
+    const { unmount } = render(<SearchBox />);
+    type("cap");
+    unmount();
+    expect(pushed).toEqual(["/?search=cap"]);
+  });
+
+  it("writes pending values on demand with flush", () => {
+    render(<SearchBox />);
+    type("cap");
+    fireEvent.click(screen.getByText("flush"));
+    expect(pushed).toEqual(["/?search=cap"]);
+    act(() => {
+      vi.advanceTimersByTime(1000);
+    });
+    expect(pushed).toHaveLength(1);
+  });
+});
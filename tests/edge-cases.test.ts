@@ -170,11 +170,11 @@ describe("array handling edge cases", () => {
     expect(result.tags).toEqual([]); // Empty string in comma format results in empty array
   });
 
-  it("handles malformed JSON arrays", () => {
-    const result = parseQuery(schema, "tags=[invalid-json", {
-      arrayFormat: "json",
-    });
-    expect(result.tags).toEqual([]);
+  it("rejects malformed JSON arrays", () => {
+    // The raw value is passed on to Zod, which rejects it as a non-array
+    expect(() =>
+      parseQuery(schema, "tags=[invalid-json", { arrayFormat: "json" })
+    ).toThrow();
   });
 
   it("handles single value with repeat format", () => {
@@ -0,0 +1,159 @@
+import { describe, it, expect, afterEach } from "vitest";
+import React from "react";
+import { render, screen, fireEvent, cleanup } from "@testing-library/react";
+import { z } from "zod";
+import { useFilterDraft, useFiltersGeneric } from "../src/react";
+
+const schema = z.object({
+  q: z.string().optional(),
+  minPrice: z.number().min(0).optional(),
+});
+
+afterEach(() => cleanup());
+
+let pushed: string[] = [];
+
+function DraftForm({ search }: { search: string }) {
+  const source = useFiltersGeneric(
+    schema,
+    () => search,
+    (url) => { pushed.push(url); },
+    { basePath: "/list" }
+  );
+  const form = useFilterDraft(schema, source);
+
+  return (
+    <div>
+      <div data-testid="draft">{JSON.stringify(form.draft)}</div>
+      <div data-testid="dirty">{String(form.dirty)}</div>
+      <div data-testid="errors">{form.errors.minPrice?.join(",") ?? ""}</div>
+      <button onClick={() => form.setField("q", "boots")}>type</button>
+      <button onClick={() => form.setDraft({ minPrice: -1 })}>invalid</button>
+      <button onClick={() => form.setDraft({ minPrice: 5 })}>valid</button>
+      <button onClick={() => form.setField("q", undefined)}>clear</button>
+      <button onClick={() => form.apply()}>apply</button>
+      <button onClick={() => form.discard()}>discard</button>
+      <button onClick={() => form.resetField("q")}>resetQ</button>
+    </div>
+  );
+}
+
+function DraftPanel({ onClose }: { onClose: () => void }) {
+  const source = useFiltersGeneric(
+    schema,
+    () => "",
+    (url) => { pushed.push(url); },
+    { basePath: "/list" }
+  );
+  const form = useFilterDraft(schema, source);
+
+  return (
+    <div>
+      <button onClick={() => form.setField("q", "boots")}>type</button>
+      <button
+        onClick={() => {
+          form.apply();
+          onClose();
+        }}
+      >
+        apply and close
+      </button>
+    </div>
+  );
+}
+
+function Sidebar() {
+  const [open, setOpen] = React.useState(true);
+  return open ? <DraftPanel onClose={() => setOpen(false)} /> : null;
+}
+
+describe("useFilterDraft", () => {
+  it("edits a local draft without touching the URL until apply", () => {
+    pushed = [];
+    render(<DraftForm search="?q=shoes" />);
+    expect(screen.getByTestId("dirty").textContent).toBe("false");
+    fireEvent.click(screen.getByText("type"));
+    expect(screen.getByTestId("draft").textContent).toBe('{"q":"boots"}');
+    expect(screen.getByTestId("dirty").textContent).toBe("true");
+    expect(pushed).toEqual([]);
+    fireEvent.click(screen.getByText("apply"));
+    expect(pushed).toEqual(["/list?q=boots"]);
+  });
+
+  it("reports per-field errors and refuses to apply invalid drafts", () => {
+    pushed = [];
+    render(<DraftForm search="" />);
+    fireEvent.click(screen.getByText("invalid"));
+    expect(screen.getByTestId("errors").textContent).not.toBe("");
+    fireEvent.click(screen.getByText("apply"));
+    expect(pushed).toEqual([]);
+    fireEvent.click(screen.getByText("valid"));
+    expect(screen.getByTestId("errors").textContent).toBe("");
+    fireEvent.click(screen.getByText("apply"));
+    expect(pushed).toEqual(["/list?minPrice=5"]);
+  });
+
+  it("removes cleared fields from the URL on apply", () => {
+    pushed = [];
+    render(<DraftForm search="?q=shoes&minPrice=3" />);
+    fireEvent.click(screen.getByText("clear"));
+    fireEvent.click(screen.getByText("apply"));
+    expect(pushed).toEqual(["/list?minPrice=3"]);
+  });
+
+  it("discards the draft or a single field", () => {
+    render(<DraftForm search="?q=shoes" />);
+    fireEvent.click(screen.getByText("type"));
+    fireEvent.click(screen.getByText("valid"));
+    fireEvent.click(screen.getByText("resetQ"));
+    expect(screen.getByTestId("draft").textContent).toBe('{"q":"shoes","minPrice":5}');
+    fireEvent.click(screen.getByText("discard"));
+    expect(screen.getByTestId("draft").textContent).toBe('{"q":"shoes"}');
+    expect(screen.getByTestId("dirty").textContent).toBe("false");
+  });
+
+  it("re-syncs the draft when the URL changes from outside", () => {
+    const { rerender } = render(<DraftForm search="?q=shoes" />);
+    fireEvent.click(screen.getByText("type"));
+    rerender(<DraftForm search="?q=hats" />);
+    expect(screen.getByTestId("draft").textContent).toBe('{"q":"hats"}');
+    expect(screen.getByTestId("dirty").textContent).toBe("false");
+  });
+
+  it("applies the draft when the form closes in the same handler", () => {
+    pushed = [];
+    window.history.replaceState(null, "", "/list");
+    render(<Sidebar />);
+    fireEvent.click(screen.getByText("type"));
+    fireEvent.click(screen.getByText("apply and close"));
+    expect(screen.queryByText("type")).toBeNull();
+    expect(pushed).toEqual(["/list?q=boots"]);
+  });
+
+  it("handles bigint fields", () => {
+    pushed = [];
+    function BigDraft() {
+      const bigSchema = z.object({ big: z.bigint().optional() });
+      const source = useFiltersGeneric(
+        bigSchema,
+        () => "?big=5",
+        (url) => { pushed.push(url); },
+        { basePath: "/list" }
+      );
+      const form = useFilterDraft(bigSchema, source);
+      return (
+        <div>
+          <div data-testid="dirty">{String(form.dirty)}</div>
+          <button onClick={() => form.setField("big", BigInt(7))}>bump</button>
+          <button onClick={() => form.apply()}>apply</button>
+        </div>
+      );
+    }
+    render(<BigDraft />);
+    expect(screen.getByTestId("dirty").textContent).toBe("false");
+    fireEvent.click(screen.getByText("bump"));
+    expect(screen.getByTestId("dirty").textContent).toBe("true");
+    fireEvent.click(screen.getByText("apply"));
+    expect(pushed).toEqual(["/list?big=7"]);
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, afterEach, beforeEach } from "vitest";
+import React from "react";
+import { render, screen, fireEvent, cleanup, act } from "@testing-library/react";
+import { z } from "zod";
+import { useFilterParam, useFiltersGeneric } from "../src/react";
+
+const schema = z.object({
+  status: z.enum(["open", "closed"]).optional(),
+  page: z.number().default(1),
+});
+
+beforeEach(() => window.history.replaceState(null, "", "/list?status=open&ref=home"));
+afterEach(() => cleanup());
+
+const renders = { status: 0, page: 0 };
+
+function Status() {
+  const [status, setStatus] = useFilterParam(schema, "status");
+  renders.status++;
+  return (
+    <div>
+      <div data-testid="status">{status ?? ""}</div>
+      <button onClick={() => setStatus("closed")}>close</button>
+      <button onClick={() => setStatus(undefined, { history: "replace" })}>clear</button>
+    </div>
+  );
+}
+
+function Pager() {
+  const [page, setPage] = useFilterParam(schema, "page");
+  renders.page++;
+  return (
+    <div>
+      <div data-testid="page">{page}</div>
+      <button onClick={() => setPage((prev) => (prev ?? 1) + 1)}>next</button>
+    </div>
+  );
+}
+
+function Dashboard() {
+  return (
+    <>
+      <Status />
+      <Pager />
+    </>
+  );
+}
+
+describe("useFilterParam", () => {
+  it("reads one typed key from the URL", () => {
+    render(<Dashboard />);
+    expect(screen.getByTestId("status").textContent).toBe("open");
+    expect(screen.getByTestId("page").textContent).toBe("1");
+  });
+
+  it("writes its key and keeps the rest of the URL", () => {
+    render(<Dashboard />);
+    fireEvent.click(screen.getByText("close"));
+    expect(window.location.pathname + window.location.search).toBe(
+      "/list?ref=home&status=closed"
+    );
+    expect(screen.getByTestId("status").textContent).toBe("closed");
+    fireEvent.click(screen.getByText("next"));
+    expect(screen.getByTestId("page").textContent).toBe("2");
+  });
+
+  it("re-renders only components whose key changed", () => {
+    render(<Dashboard />);
+    renders.status = 0;
+    renders.page = 0;
+    fireEvent.click(screen.getByText("next"));
+    expect(renders).toEqual({ status: 0, page: 1 });
+    fireEvent.click(screen.getByText("close"));
+    expect(renders).toEqual({ status: 1, page: 1 });
+  });
+
+  it("follows back/forward navigation", () => {
+    render(<Dashboard />);
+    fireEvent.click(screen.getByText("clear"));
+    expect(screen.getByTestId("status").textContent).toBe("");
+    act(() => {
+      window.history.replaceState(null, "", "/list?status=closed");
+      window.dispatchEvent(new PopStateEvent("popstate"));
+    });
+    expect(screen.getByTestId("status").textContent).toBe("closed");
+  });
+
+  it("uses a custom navigate function", () => {
+    const calls: string[] = [];
+    function Custom() {
+      const [, setStatus] = useFilterParam(schema, "status", {
+        navigate: (url) => calls.push(url),
+      });
+      return <button onClick={() => setStatus("closed")}>custom</button>;
+    }
+    render(<Custom />);
+    fireEvent.click(screen.getByText("custom"));
+    expect(calls).toEqual(["/list?ref=home&status=closed"]);
+  });
+
+  it("follows writes made by other hooks", async () => {
+    function Sidebar() {
+      const { setFilters } = useFiltersGeneric(
+        schema,
+        () => window.location.search,
+        (url) => window.history.pushState(null, "", url)
+      );
+      return <button onClick={() => setFilters({ status: "closed" })}>sidebar</button>;
+    }
+    render(
+      <>
+        <Dashboard />
+        <Sidebar />
+      </>
+    );
+    await act(async () => {
+      fireEvent.click(screen.getByText("sidebar"));
+    });
+    expect(screen.getByTestId("status").textContent).toBe("closed");
+  });
+
+  it("reads and writes bigint keys", () => {
+    window.history.replaceState(null, "", "/list?big=5");
+    function Big() {
+      const [big, setBig] = useFilterParam(
+        z.object({ big: z.bigint().optional() }),
+        "big"
+      );
+      return (
+        <div>
+          <div data-testid="big">{String(big)}</div>
+          <button onClick={() => setBig((prev) => (prev ?? BigInt(0)) + BigInt(1))}>
+            inc
+          </button>
+        </div>
+      );
+    }
+    render(<Big />);
+    expect(screen.getByTestId("big").textContent).toBe("5");
+    fireEvent.click(screen.getByText("inc"));
+    expect(screen.getByTestId("big").textContent).toBe("6");
+    expect(window.location.search).toBe("?big=6");
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import React from "react";
+import { render, screen, fireEvent, cleanup, act } from "@testing-library/react";
+import { z } from "zod";
+import { useFiltersGeneric, type NavigateOptions } from "../src/react";
+
+const schema = z.object({
+  search: z.string().optional(),
+  status: z.string().optional(),
+});
+
+afterEach(() => {
+  cleanup();
+  vi.useRealTimers();
+});
+
+let calls: [string, NavigateOptions | undefined][] = [];
+
+function Filters({ navigation }: { navigation?: NavigateOptions }) {
+  const { setFilters, reset } = useFiltersGeneric(
+    schema,
+    () => "",
+    (url, nav) => { calls.push([url, nav]); },
+    { basePath: "/", debounce: { search: 300 }, navigation }
+  );
+
+  return (
+    <div>
+      <button onClick={() => setFilters({ status: "open" })}>facet</button>
+      <button onClick={() => setFilters({ status: "closed" }, { history: "replace", scroll: false })}>
+        quiet
+      </button>
+      <button onClick={() => setFilters({ search: "x" })}>type</button>
+      <button onClick={() => reset(undefined, { history: "replace" })}>reset</button>
+    </div>
+  );
+}
+
+describe("history mode", () => {
+  it("pushes by default and honours per-call options", () => {
+    calls = [];
+    render(<Filters />);
+    fireEvent.click(screen.getByText("facet"));
+    fireEvent.click(screen.getByText("quiet"));
+    fireEvent.click(screen.getByText("reset"));
+    expect(calls).toEqual([
+      ["/?status=open", {}],
+      ["/?status=closed", { history: "replace", scroll: false }],
+      ["/", { history: "replace" }],
+    ]);
+  });
+
+  it("applies hook-level navigation options", () => {
+    calls = [];
+    render(<Filters navigation={{ history: "replace", scroll: false }} />);
+    fireEvent.click(screen.getByText("facet"));
+    expect(calls[0][1]).toEqual({ history: "replace", scroll: false });
+  });
+
+  it("replaces for debounced keystroke writes", () => {
+    vi.useFakeTimers();
+    calls = [];
+    render(<Filters navigation={{ scroll: false }} />);
+    fireEvent.click(screen.getByText("type"));
+    act(() => {
+      vi.advanceTimersByTime(300);
+    });
+    expect(calls).toEqual([["/?search=x", { scroll: false, history: "replace" }]]);
+  });
+});
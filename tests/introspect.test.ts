@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import * as zm from "zod-v4/mini";
+import { buildQuery, parseQuery } from "../src/core";
+
+describe("schema introspection", () => {
+  it("unwraps preprocess and transform wrappers", () => {
+    const schema = z.object({
+      page: z.preprocess((v) => v, z.number()).optional(),
+      tags: z.array(z.number()).transform((v) => v.length).optional(),
+    });
+    expect(
+      parseQuery(schema, "page=2&tags=1&tags=2", { coerceTypes: true })
+    ).toEqual({ page: 2, tags: 2 });
+  });
+
+  it("reads defaults through wrappers", () => {
+    const schema = z.object({ page: z.number().default(1).optional() });
+    expect(
+      buildQuery(schema, { page: 1 }, { omitDefaults: true }).toString()
+    ).toBe("");
+  });
+
+  it("introspects zod/mini schemas at runtime", () => {
+    const schema = zm.object({
+      page: zm.optional(zm.number()),
+      tags: zm._default(zm.array(zm.number()), []),
+      price: zm.optional(zm.object({ min: zm.optional(zm.number()) })),
+      status: zm.optional(zm.enum(["open", "closed"])),
+    });
+    const parsed = parseQuery(schema as any, "page=2&tags=1&price[min]=5", {
+      coerceTypes: true,
+    });
+    expect(parsed).toEqual({ page: 2, tags: [1], price: { min: 5 } });
+    expect(
+      buildQuery(schema as any, { tags: [] }, { omitDefaults: true }).toString()
+    ).toBe("");
+  });
+});
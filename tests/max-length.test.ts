@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { buildUrl, fitUrl, parseQuery, UrlLengthError } from "../src/core";
+
+const schema = z.object({
+  page: z.number().default(1),
+  order: z.enum(["asc", "desc"]).default("asc"),
+  search: z.string().optional(),
+  ids: z.array(z.number()).optional(),
+});
+
+const ids = Array.from({ length: 40 }, (_, i) => 100 + (i % 5));
+
+describe("maxLength", () => {
+  it("leaves URLs within the limit untouched", () => {
+    const url = buildUrl("/list", schema, { page: 1, search: "x" }, {
+      maxLength: 100,
+    });
+    expect(url).toBe("/list?page=1&search=x");
+  });
+
+  it("drops default values first", () => {
+    const result = fitUrl("/list", schema, { page: 1, order: "asc", search: "x" }, {
+      maxLength: 20,
+    });
+    expect(result).toEqual({
+      url: "/list?search=x",
+      fits: true,
+      strategies: ["omitDefaults"],
+      affectedFields: ["page", "order"],
+      fieldsByStrategy: { omitDefaults: ["page", "order"] },
+    });
+  });
+
+  it("moves arrays into the packed param next", () => {
+    const filters = { page: 2, search: "x", ids };
+    const result = fitUrl("/list", schema, filters, { maxLength: 170 });
+    expect(result.fits).toBe(true);
+    expect(result.strategies).toEqual(["omitDefaults", "compactArrays"]);
+    expect(result.fieldsByStrategy.compactArrays).toEqual(["ids"]);
+    expect(result.url).toMatch(/^\/list\?page=2&search=x&_s=\.[\w-]+$/);
+    expect(parseQuery(schema, result.url.split("?")[1], { coerceTypes: true })).toEqual({
+      ...filters,
+      order: "asc",
+    });
+  });
+
+  it("packs the filters as a last resort", () => {
+    const filters = { page: 2, search: "a".repeat(40), ids };
+    const result = fitUrl("/list", schema, filters, { maxLength: 180 });
+    expect(result.fits).toBe(true);
+    expect(result.strategies).toEqual(["omitDefaults", "compactArrays", "pack"]);
+    expect(result.affectedFields).toEqual(["ids", "page", "search"]);
+    expect(result.url).toMatch(/^\/list\?_s=\.[\w-]+$/);
+    const parsed = parseQuery(schema, result.url.split("?")[1], {
+      coerceTypes: true,
+    });
+    expect(parsed).toEqual({ ...filters, order: "asc" });
+  });
+
+  it("respects the configured strategies", () => {
+    const result = fitUrl("/list", schema, { page: 1, ids }, {
+      maxLength: 20,
+      lengthStrategies: ["omitDefaults"],
+    });
+    expect(result.fits).toBe(false);
+    expect(result.strategies).toEqual(["omitDefaults"]);
+  });
+
+  it("throws a typed error when the URL still does not fit", () => {
+    let error: unknown;
+    try {
+      buildUrl("/list", schema, { search: "a".repeat(50), ids }, { maxLength: 20 });
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(UrlLengthError);
+    expect((error as UrlLengthError).maxLength).toBe(20);
+    expect((error as UrlLengthError).affectedFields).toEqual(["ids", "search"]);
+    expect((error as UrlLengthError).url.length).toBeGreaterThan(20);
+  });
+});
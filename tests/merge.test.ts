@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { buildUrl } from "../src/core";
+
+const schema = z.object({
+  page: z.number().optional(),
+  search: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  price: z.object({ min: z.number().optional() }).optional(),
+});
+
+describe("merge mode", () => {
+  it("appends by default, duplicating owned keys", () => {
+    const url = buildUrl("/list?utm_source=x&page=3", schema, { page: 4 });
+    expect(url).toBe("/list?utm_source=x&page=3&page=4");
+  });
+
+  it("replaces owned keys and keeps foreign ones in order", () => {
+    const url = buildUrl(
+      "/list?utm_source=x&page=3&flag=on&utm_medium=y",
+      schema,
+      { page: 4 },
+      { merge: true }
+    );
+    expect(url).toBe("/list?utm_source=x&flag=on&utm_medium=y&page=4");
+  });
+
+  it("removes owned keys that are no longer set", () => {
+    const url = buildUrl(
+      "/list?tags=a&tags=b&price[min]=3&search=x&ref=home",
+      schema,
+      {},
+      { merge: true }
+    );
+    expect(url).toBe("/list?ref=home");
+  });
+
+  it("recognises aliased and array-format keys as owned", () => {
+    const url = buildUrl(
+      "/list?q=old&tags[]=a&keep=1",
+      schema,
+      { search: "new", tags: ["b"] },
+      { merge: true, keyAliases: { search: "q" }, arrayFormat: "bracket" }
+    );
+    expect(decodeURIComponent(url)).toBe("/list?keep=1&q=new&tags[]=b");
+  });
+
+  it("keeps the hash", () => {
+    const url = buildUrl("/list?page=1&x=1#top", schema, { page: 2 }, {
+      merge: true,
+    });
+    expect(url).toBe("/list?x=1&page=2#top");
+  });
+
+  it("drops the query string when nothing is left", () => {
+    expect(buildUrl("/list?page=1", schema, {}, { merge: true })).toBe("/list");
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { buildQuery, buildUrl, parseQuery } from "../src/core";
+
+const schema = z.object({
+  page: z.number().optional(),
+  sort: z.string().optional(),
+  search: z.string().optional(),
+});
+
+describe("namespaced filters", () => {
+  it("parses each namespace into its own object", () => {
+    const qs = "?orders.page=2&users.page=5&users.search=bob&page=9";
+    expect(
+      parseQuery(schema, qs, { namespace: "orders", coerceTypes: true })
+    ).toEqual({ page: 2 });
+    expect(
+      parseQuery(schema, qs, { namespace: "users", coerceTypes: true })
+    ).toEqual({ page: 5, search: "bob" });
+  });
+
+  it("only passes through unknown keys from its own namespace", () => {
+    const loose = schema.passthrough();
+    const parsed = parseQuery(loose, "?orders.extra=1&users.extra=2&extra=3", {
+      namespace: "orders",
+    });
+    expect(parsed).toEqual({ extra: "1" });
+  });
+
+  it("prefixes built keys", () => {
+    const qs = buildQuery(schema, { page: 2, sort: "name" }, { namespace: "orders" });
+    expect(qs.toString()).toBe("orders.page=2&orders.sort=name");
+  });
+
+  it("combines with key aliases", () => {
+    const options = { namespace: "users", keyAliases: { search: "q" } };
+    const qs = buildQuery(schema, { search: "bob" }, options);
+    expect(qs.toString()).toBe("users.q=bob");
+    expect(parseQuery(schema, qs, options)).toEqual({ search: "bob" });
+  });
+
+  it("buildUrl replaces only its own namespace in the base url", () => {
+    const url = buildUrl(
+      "/dash?orders.page=2&orders.sort=date&users.page=5",
+      schema,
+      { page: 3 },
+      { namespace: "orders" }
+    );
+    expect(url).toBe("/dash?users.page=5&orders.page=3");
+  });
+
+  it("buildUrl removes the namespace when its filters are empty", () => {
+    const url = buildUrl("/dash?orders.page=2", schema, {}, { namespace: "orders" });
+    expect(url).toBe("/dash");
+  });
+});
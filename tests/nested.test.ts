@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { buildQuery, buildUrl, parseQuery, safeParseQuery } from "../src/core";
+
+const schema = z.object({
+  search: z.string().optional(),
+  price: z
+    .object({
+      min: z.number().optional(),
+      max: z.number().optional(),
+    })
+    .optional(),
+  facets: z
+    .object({
+      brand: z.array(z.string()).optional(),
+      rating: z.object({ gte: z.number().optional() }).optional(),
+    })
+    .optional(),
+});
+
+describe("nested object filters", () => {
+  it("builds bracket notation by default", () => {
+    const qs = buildQuery(schema, { price: { min: 10, max: 50 } }).toString();
+    expect(decodeURIComponent(qs)).toBe("price[min]=10&price[max]=50");
+  });
+
+  it("parses bracket notation with coercion", () => {
+    const parsed = parseQuery(schema, "?price[min]=10&price[max]=50", {
+      coerceTypes: true,
+    });
+    expect(parsed).toEqual({ price: { min: 10, max: 50 } });
+  });
+
+  it("supports dot notation", () => {
+    const url = buildUrl(
+      "/search",
+      schema,
+      { price: { min: 10 } },
+      { nestedFormat: "dot" }
+    );
+    expect(url).toBe("/search?price.min=10");
+    expect(
+      parseQuery(schema, "price.min=10", {
+        coerceTypes: true,
+        nestedFormat: "dot",
+      })
+    ).toEqual({ price: { min: 10 } });
+  });
+
+  it("round-trips deeper nesting and nested arrays", () => {
+    const filters = {
+      search: "shoe",
+      facets: { brand: ["a", "b"], rating: { gte: 4 } },
+    };
+    const qs = buildQuery(schema, filters);
+    expect(qs.getAll("facets[brand]")).toEqual(["a", "b"]);
+    expect(qs.get("facets[rating][gte]")).toBe("4");
+    expect(parseQuery(schema, qs, { coerceTypes: true })).toEqual(filters);
+  });
+
+  it("omits nested objects with no params", () => {
+    const parsed = parseQuery(schema, "?search=x", { coerceTypes: true });
+    expect(parsed).toEqual({ search: "x" });
+  });
+
+  it("drops only the invalid nested leaf in safe mode", () => {
+    const result = safeParseQuery(schema, "?price[min]=abc&price[max]=50", {
+      coerceTypes: true,
+    });
+    expect(result.data).toEqual({ price: { max: 50 } });
+    expect(result.droppedKeys).toEqual(["price.min"]);
+  });
+});
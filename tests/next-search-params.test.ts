@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import {
+  getCanonicalFiltersUrl,
+  getFiltersFromSearchParams,
+  getFiltersRedirect,
+  safeGetFiltersFromSearchParams,
+} from "../src/next";
+
+const schema = z.object({
+  search: z.string().optional(),
+  page: z.number().optional(),
+  tags: z.array(z.string()).optional(),
+});
+
+describe("App Router searchParams", () => {
+  it("parses a searchParams record with the URL defaults", () => {
+    const filters = getFiltersFromSearchParams(schema, {
+      search: " shoes ",
+      page: "2",
+      tags: ["a", "b"],
+      empty: undefined,
+      other: "x",
+    });
+    expect(filters).toEqual({ search: "shoes", page: 2, tags: ["a", "b"] });
+  });
+
+  it("resolves the Promise form", async () => {
+    const filters = getFiltersFromSearchParams(schema, Promise.resolve({ page: "3" }));
+    expect(filters).toBeInstanceOf(Promise);
+    expect(await filters).toEqual({ page: 3 });
+  });
+
+  it("parses safely", async () => {
+    const result = await safeGetFiltersFromSearchParams(
+      schema,
+      Promise.resolve({ page: "abc", search: "x" })
+    );
+    expect(result.data).toEqual({ search: "x" });
+    expect(result.droppedKeys).toEqual(["page"]);
+  });
+});
+
+describe("App Router canonical URLs", () => {
+  it("builds the canonical URL for metadata", async () => {
+    const url = await getCanonicalFiltersUrl(
+      schema,
+      "/products",
+      Promise.resolve({ page: "2", search: " x ", utm_source: "ad" })
+    );
+    expect(url).toBe("/products?search=x&page=2");
+  });
+
+  it("returns nothing for URLs that are already clean", () => {
+    expect(
+      getFiltersRedirect(schema, "/products", { search: "x", page: "2" })
+    ).toBeUndefined();
+    expect(getFiltersRedirect(schema, "/products", {})).toBeUndefined();
+  });
+
+  it("redirects non-canonical and invalid URLs, keeping foreign params", async () => {
+    expect(
+      getFiltersRedirect(schema, "/products", { page: "2", search: "x" })
+    ).toBe("/products?search=x&page=2");
+    expect(
+      await getFiltersRedirect(
+        schema,
+        "/products",
+        Promise.resolve({ ref: "home", page: "oops", search: "x" })
+      )
+    ).toBe("/products?ref=home&search=x");
+  });
+
+  it("leaves default values out of the canonical URL", () => {
+    const defaulted = z.object({
+      page: z.number().default(1),
+      sort: z.enum(["asc", "desc"]).default("asc"),
+      search: z.string().optional(),
+    });
+    expect(getFiltersRedirect(defaulted, "/list", {})).toBeUndefined();
+    expect(getFiltersRedirect(defaulted, "/list", { page: "1", search: "x" })).toBe(
+      "/list?search=x"
+    );
+    expect(getCanonicalFiltersUrl(defaulted, "/list", { sort: "desc" })).toBe(
+      "/list?sort=desc"
+    );
+  });
+});
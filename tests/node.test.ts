@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import {
+  getFiltersFromFastifyRequest,
+  getFiltersFromQueryObject,
+  getFiltersFromRequest,
+  queryObjectToSearchParams,
+} from "../src/node";
+
+const schema = z.object({
+  search: z.string().optional(),
+  page: z.number().int().min(1).optional(),
+  tags: z.array(z.string()).optional(),
+  price: z.object({ min: z.number().optional(), max: z.number().optional() }).optional(),
+});
+
+describe("node adapters", () => {
+  it("parses an IncomingMessage url", () => {
+    const result = getFiltersFromRequest(schema, {
+      url: "/api/items?search=%20x%20&page=2&tags=a&tags=b&price[min]=5",
+    });
+    expect(result).toEqual({
+      success: true,
+      data: { search: "x", page: 2, tags: ["a", "b"], price: { min: 5 } },
+    });
+  });
+
+  it("parses an Express query object with nested and array forms", () => {
+    const result = getFiltersFromQueryObject(schema, {
+      search: "x",
+      page: "3",
+      tags: ["a", "b"],
+      price: { min: "1", max: "9" },
+      extra: "ignored",
+    });
+    expect(result).toEqual({
+      success: true,
+      data: { search: "x", page: 3, tags: ["a", "b"], price: { min: 1, max: 9 } },
+    });
+  });
+
+  it("re-serializes arrays and nested objects in the configured formats", () => {
+    const params = queryObjectToSearchParams(
+      { tags: ["a", "b"], price: { min: "1" } },
+      { arrayFormat: "comma", nestedFormat: "dot" }
+    );
+    expect(params.toString()).toBe("tags=a%2Cb&price.min=1");
+  });
+
+  it("parses Fastify requests from the raw url or the query object", () => {
+    expect(
+      getFiltersFromFastifyRequest(schema, { url: "/items?page=4", query: { page: "1" } })
+    ).toEqual({ success: true, data: { page: 4 } });
+    expect(getFiltersFromFastifyRequest(schema, { query: { tags: "a" } })).toEqual({
+      success: true,
+      data: { tags: ["a"] },
+    });
+  });
+
+  it("returns a 400 payload built from the Zod issues", () => {
+    const result = getFiltersFromQueryObject(schema, { page: "0", price: { min: "abc" } });
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error.status).toBe(400);
+    expect(result.error.error).toBe("Bad Request");
+    expect(result.error.issues.map((issue) => issue.path).sort()).toEqual([
+      "page",
+      "price.min",
+    ]);
+    expect(result.error.issues[0].message).toEqual(expect.any(String));
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { buildQuery, buildUrl, parseQuery } from "../src/core";
+
+const schema = z.object({
+  page: z.number().default(1),
+  order: z.enum(["asc", "desc"]).default("asc"),
+  tags: z.array(z.string()).default(["new"]),
+  since: z.date().default(new Date("2024-01-01T00:00:00.000Z")),
+  price: z
+    .object({ min: z.number().default(0), max: z.number().optional() })
+    .optional(),
+  search: z.string().optional(),
+});
+
+describe("omitDefaults", () => {
+  it("keeps defaults without the option", () => {
+    const qs = buildQuery(schema, { page: 1, order: "asc" });
+    expect(qs.toString()).toBe("page=1&order=asc");
+  });
+
+  it("skips values equal to their schema default", () => {
+    const qs = buildQuery(
+      schema,
+      {
+        page: 1,
+        order: "asc",
+        tags: ["new"],
+        since: new Date("2024-01-01T00:00:00.000Z"),
+        search: "x",
+      },
+      { omitDefaults: true }
+    );
+    expect(qs.toString()).toBe("search=x");
+  });
+
+  it("keeps values that differ from the default", () => {
+    const qs = buildQuery(
+      schema,
+      { page: 2, order: "desc", tags: ["new", "old"] },
+      { omitDefaults: true }
+    );
+    expect(qs.toString()).toBe("page=2&order=desc&tags=new&tags=old");
+  });
+
+  it("applies to nested fields", () => {
+    const qs = buildQuery(
+      schema,
+      { price: { min: 0, max: 10 } },
+      { omitDefaults: true }
+    );
+    expect(decodeURIComponent(qs.toString())).toBe("price[max]=10");
+  });
+
+  it("round-trips through parseQuery", () => {
+    const filters = {
+      page: 1,
+      order: "asc" as const,
+      tags: ["new"],
+      since: new Date("2024-01-01T00:00:00.000Z"),
+      search: "shoe",
+    };
+    const url = buildUrl("/list", schema, filters, { omitDefaults: true });
+    expect(url).toBe("/list?search=shoe");
+    expect(parseQuery(schema, url.split("?")[1], { coerceTypes: true })).toEqual(
+      filters
+    );
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { toJsonSchema, toOpenApiParameters } from "../src/openapi";
+import { rangeSchema } from "../src/schemas";
+
+const schema = z.object({
+  search: z.string().describe("Free text search"),
+  page: z.number().int().default(1),
+  status: z.enum(["open", "closed"]).optional(),
+  tags: z.array(z.string()).optional(),
+  ids: z.array(z.number()).optional(),
+  since: z.date().nullable().optional(),
+  price: z.object({ min: z.number().optional(), max: z.number().optional() }).optional(),
+});
+
+describe("toOpenApiParameters", () => {
+  it("emits query parameters with types, enums, defaults and required flags", () => {
+    const params = toOpenApiParameters(schema);
+    expect(params.find((p) => p.name === "search")).toEqual({
+      name: "search",
+      in: "query",
+      required: true,
+      description: "Free text search",
+      schema: { type: "string", description: "Free text search" },
+    });
+    expect(params.find((p) => p.name === "page")).toEqual({
+      name: "page",
+      in: "query",
+      required: false,
+      schema: { type: "integer", default: 1 },
+    });
+    expect(params.find((p) => p.name === "status")?.schema).toEqual({
+      type: "string",
+      enum: ["open", "closed"],
+    });
+    expect(params.find((p) => p.name === "since")?.schema).toEqual({
+      type: ["string", "null"],
+      format: "date-time",
+    });
+  });
+
+  it("maps array formats to style and explode", () => {
+    const params = toOpenApiParameters(schema, {
+      arrayFormat: "comma",
+      arrayKeyFormat: { ids: "json" },
+    });
+    expect(params.find((p) => p.name === "tags")).toMatchObject({
+      style: "form",
+      explode: false,
+      schema: { type: "array", items: { type: "string" } },
+    });
+    expect(params.find((p) => p.name === "ids")).toMatchObject({
+      content: { "application/json": { schema: { type: "array", items: { type: "number" } } } },
+    });
+
+    const repeat = toOpenApiParameters(schema).find((p) => p.name === "tags");
+    expect(repeat).toMatchObject({ style: "form", explode: true });
+
+    const pipe = toOpenApiParameters(schema, { arrayFormat: "pipe" });
+    expect(pipe.find((p) => p.name === "tags")).toMatchObject({
+      style: "pipeDelimited",
+      explode: false,
+    });
+
+    const bracket = toOpenApiParameters(schema, { arrayFormat: "bracket" });
+    expect(bracket.some((p) => p.name === "tags[]")).toBe(true);
+
+    const index = toOpenApiParameters(schema, { arrayFormat: "index" });
+    expect(index.find((p) => p.name.startsWith("tags"))).toEqual({
+      name: "tags[0]",
+      in: "query",
+      required: false,
+      description: "Indexed array: send further items as tags[1], tags[2], …",
+      schema: { type: "string" },
+    });
+  });
+
+  it("describes nested objects as deepObject or dotted params", () => {
+    expect(toOpenApiParameters(schema).find((p) => p.name === "price")).toMatchObject({
+      style: "deepObject",
+      explode: true,
+      schema: { type: "object", properties: { min: { type: "number" } } },
+    });
+    const dotted = toOpenApiParameters(schema, { nestedFormat: "dot" });
+    expect(dotted.map((p) => p.name)).toContain("price.min");
+    expect(dotted.map((p) => p.name)).toContain("price.max");
+  });
+
+  it("follows aliases, namespaces, ranges, packing and versioning", () => {
+    const params = toOpenApiParameters(
+      z.object({
+        search: z.string().optional(),
+        price: rangeSchema(z.number()).optional(),
+        ids: z.array(z.number()).optional(),
+      }),
+      {
+        namespace: "orders",
+        keyAliases: { search: "q" },
+        pack: { keys: ["ids"] },
+        version: { current: 2 },
+      }
+    );
+    expect(params.map((p) => p.name)).toEqual([
+      "orders.q",
+      "orders.price",
+      "orders._s",
+      "orders.v",
+    ]);
+    expect(params[1].schema).toMatchObject({ type: "string" });
+    expect(params[2].schema).toEqual({
+      type: "string",
+      pattern: "^\\.?[A-Za-z0-9_-]*$",
+    });
+  });
+});
+
+describe("toJsonSchema", () => {
+  it("converts unions and literals", () => {
+    expect(toJsonSchema(z.union([z.literal("a"), z.number()]))).toEqual({
+      anyOf: [{ const: "a" }, { type: "number" }],
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { buildQuery, buildUrl, parseQuery } from "../src/core";
+import { getFiltersFromUrl } from "../src/next";
+import { decodePackedState, encodePackedState } from "../src/pack";
+
+const schema = z.object({
+  search: z.string().optional(),
+  page: z.number().optional(),
+  ids: z.array(z.number()).optional(),
+  since: z.date().optional(),
+});
+
+const ids = Array.from({ length: 200 }, (_, i) => 1000 + (i % 20));
+
+describe("packed state", () => {
+  it("round-trips plain and compressed payloads", () => {
+    const query = "search=caf%C3%A9+%F0%9F%98%80&ids=1&ids=1&ids=1&ids=1";
+    for (const compressed of [false, true]) {
+      const encoded = encodePackedState(query, compressed);
+      expect(encoded).toMatch(/^\.?[A-Za-z0-9_-]+$/);
+      expect(decodePackedState(encoded)).toBe(query);
+    }
+  });
+
+  it("compresses repetitive payloads", () => {
+    const query = buildQuery(schema, { ids }).toString();
+    expect(encodePackedState(query, true).length).toBeLessThan(
+      encodePackedState(query).length / 3
+    );
+  });
+
+  it("packs the whole filter object into one param", () => {
+    const filters = {
+      search: "shoe",
+      page: 2,
+      ids: [1, 2],
+      since: new Date("2024-01-01T00:00:00.000Z"),
+    };
+    const url = buildUrl("/list", schema, filters, {
+      pack: true,
+      encodeDate: true,
+    });
+    expect(url).toMatch(/^\/list\?_s=[A-Za-z0-9_-]+$/);
+    expect(getFiltersFromUrl(schema, url)).toEqual(filters);
+  });
+
+  it("refuses payloads that expand past the size limit", () => {
+    const bomb = encodePackedState("a".repeat(1_000_000), true);
+    expect(bomb.length).toBeLessThan(3000);
+    expect(() => decodePackedState(bomb)).toThrow("too large");
+    expect(parseQuery(schema, `search=x&_s=${bomb}`)).toEqual({ search: "x" });
+    const ok = "ids=1&".repeat(5000);
+    expect(decodePackedState(encodePackedState(ok, true))).toBe(ok);
+  });
+
+  it("mixes readable and packed keys", () => {
+    const qs = buildQuery(
+      schema,
+      { search: "shoe", page: 2, ids },
+      { pack: { keys: ["ids"], compress: true, param: "p" } }
+    );
+    expect(qs.get("search")).toBe("shoe");
+    expect(qs.get("page")).toBe("2");
+    expect(qs.get("ids")).toBeNull();
+    expect(qs.get("p")!.startsWith(".")).toBe(true);
+    expect(qs.toString()).toMatch(/&p=\.[A-Za-z0-9_-]+$/);
+    expect(
+      parseQuery(schema, qs, { coerceTypes: true, pack: { param: "p" } })
+    ).toEqual({ search: "shoe", page: 2, ids });
+  });
+
+  it("omits the packed param when nothing is packed", () => {
+    const qs = buildQuery(schema, { search: "x" }, { pack: { keys: ["ids"] } });
+    expect(qs.toString()).toBe("search=x");
+  });
+
+  it("namespaces the packed param", () => {
+    const options = { namespace: "orders", pack: true };
+    const qs = buildQuery(schema, { page: 3 }, options);
+    expect([...qs.keys()]).toEqual(["orders._s"]);
+    expect(parseQuery(schema, qs, { ...options, coerceTypes: true })).toEqual({
+      page: 3,
+    });
+  });
+
+  it("ignores packed values that cannot be decoded", () => {
+    expect(parseQuery(schema, "_s=%%%&search=x")).toEqual({ search: "x" });
+    expect(parseQuery(schema, "_s=~AAAA&search=x")).toEqual({ search: "x" });
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { buildQuery, parseQuery, safeParseQuery } from "../src/core";
+import { toOpenApiParameters } from "../src/openapi";
+import { paginationSchema, sortSchema } from "../src/schemas";
+
+const schema = z.object({
+  search: z.string().optional(),
+  ...paginationSchema({ defaultPageSize: 25, maxPageSize: 50 }),
+  sort: sortSchema(["createdAt", "name"]).optional(),
+});
+
+const parse = (qs: string) => parseQuery(schema, qs, { coerceTypes: true });
+
+describe("pagination", () => {
+  it("applies defaults", () => {
+    expect(parse("")).toEqual({ page: 1, pageSize: 25 });
+    expect(parse("page=3&pageSize=10")).toEqual({ page: 3, pageSize: 10 });
+  });
+
+  it("bounds the page size", () => {
+    expect(() => parse("pageSize=500")).toThrow();
+    const result = safeParseQuery(schema, "pageSize=500&page=0", { coerceTypes: true });
+    expect(result.data).toEqual({ page: 1, pageSize: 25 });
+    expect(result.droppedKeys.sort()).toEqual(["page", "pageSize"]);
+  });
+});
+
+describe("sort", () => {
+  it("parses the comma and minus syntax", () => {
+    expect(parse("sort=-createdAt,name").sort).toEqual([
+      { field: "createdAt", dir: "desc" },
+      { field: "name", dir: "asc" },
+    ]);
+    expect(parse("sort=%2Bname").sort).toEqual([{ field: "name", dir: "asc" }]);
+  });
+
+  it("rejects fields outside the allowed list", () => {
+    expect(() => parse("sort=password")).toThrow();
+  });
+
+  it("builds the compact syntax", () => {
+    const qs = buildQuery(schema, {
+      sort: [
+        { field: "createdAt", dir: "desc" },
+        { field: "name", dir: "asc" },
+      ],
+      page: 2,
+    });
+    expect(qs.toString()).toBe("sort=-createdAt%2Cname&page=2");
+    expect(parse(qs.toString()).sort).toHaveLength(2);
+  });
+
+  it("type-checks field names", () => {
+    // @ts-expect-error unknown sort field
+    buildQuery(schema, { sort: [{ field: "password", dir: "asc" }] });
+  });
+
+  it("describes the sort param in OpenAPI", () => {
+    const param = toOpenApiParameters(schema).find((p) => p.name === "sort");
+    expect(param?.schema?.pattern).toBe(
+      "^[-+]?(createdAt|name)(,[-+]?(createdAt|name))*$"
+    );
+  });
+});
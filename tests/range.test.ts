@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { buildQuery, parseQuery, safeParseQuery } from "../src/core";
+import { rangeSchema } from "../src/schemas";
+
+const schema = z.object({
+  price: rangeSchema(z.number()).optional(),
+  created: rangeSchema(z.date()).optional(),
+  size: rangeSchema(z.number().int().min(0)).optional(),
+});
+
+const parse = (qs: string) => parseQuery(schema, qs, { coerceTypes: true });
+
+describe("range filters", () => {
+  it("parses closed ranges", () => {
+    expect(parse("price=10..100")).toEqual({ price: { min: 10, max: 100 } });
+  });
+
+  it("parses open ends", () => {
+    expect(parse("price=10..")).toEqual({ price: { min: 10 } });
+    expect(parse("price=..100")).toEqual({ price: { max: 100 } });
+  });
+
+  it("coerces date bounds", () => {
+    const parsed = parse("created=2024-01-01T00:00:00.000Z..");
+    expect(parsed.created?.min).toEqual(new Date("2024-01-01T00:00:00.000Z"));
+    expect(parsed.created?.max).toBeUndefined();
+  });
+
+  it("rejects reversed bounds", () => {
+    expect(() => parse("price=100..10")).toThrow(/min must not be greater/);
+    const result = safeParseQuery(schema, "price=100..10&size=1..2", {
+      coerceTypes: true,
+    });
+    expect(result.data).toEqual({ price: { min: 100 }, size: { min: 1, max: 2 } });
+    expect(result.droppedKeys).toEqual(["price.max"]);
+  });
+
+  it("rejects values without the range separator", () => {
+    expect(() => parse("price=10")).toThrow();
+  });
+
+  it("validates bounds against the bound schema", () => {
+    expect(() => parse("size=-1..")).toThrow();
+  });
+
+  it("builds range params", () => {
+    const qs = buildQuery(
+      schema,
+      {
+        price: { min: 10, max: 100 },
+        size: { max: 5 },
+        created: { min: new Date("2024-01-01T00:00:00.000Z") },
+      },
+      { encodeDate: true }
+    );
+    expect(qs.get("price")).toBe("10..100");
+    expect(qs.get("size")).toBe("..5");
+    expect(qs.get("created")).toBe("2024-01-01T00:00:00.000Z..");
+  });
+
+  it("skips empty ranges", () => {
+    expect(buildQuery(schema, { price: {} }).toString()).toBe("");
+  });
+});
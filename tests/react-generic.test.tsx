@@ -1,11 +1,13 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, afterEach } from "vitest";
 import React from "react";
-import { render, screen, fireEvent } from "@testing-library/react";
+import { render, screen, fireEvent, cleanup } from "@testing-library/react";
 import { z } from "zod";
 import { useFiltersGeneric } from "../src/react";
 
 const schema = z.object({ q: z.string().optional() });
 
+afterEach(() => cleanup());
+
 function TestComp({ search = "?q=hi" }: { search?: string }) {
   const { filters, setFilters } = useFiltersGeneric(
     schema,
@@ -30,3 +32,219 @@ describe("useFiltersGeneric", () => {
     expect((window as any).__pushed).toContain("?q=bye");
   });
 });
+
+const numericSchema = z.object({
+  q: z.string().optional(),
+  page: z.number().optional(),
+});
+
+function SafeComp({ search }: { search: string }) {
+  const { filters, droppedKeys } = useFiltersGeneric(
+    numericSchema,
+    () => search,
+    () => {},
+    { safe: true }
+  );
+
+  return (
+    <div>
+      <div data-testid="q">{filters.q ?? ""}</div>
+      <div data-testid="dropped">{droppedKeys.join(",")}</div>
+    </div>
+  );
+}
+
+describe("useFiltersGeneric safe mode", () => {
+  it("drops invalid params instead of throwing", () => {
+    render(<SafeComp search="?q=hi&page=abc" />);
+    expect(screen.getByTestId("q").textContent).toBe("hi");
+    expect(screen.getByTestId("dropped").textContent).toBe("page");
+  });
+
+  it("keeps the valid fields when the whole object cannot be parsed", () => {
+    const strict = z.object({
+      q: z.string(),
+      cat: z.string().optional(),
+      page: z.number().default(1),
+    });
+    let seen: unknown;
+    function StrictComp() {
+      const { filters, errors } = useFiltersGeneric(
+        strict,
+        () => "?cat=shoes",
+        () => {},
+        { safe: true }
+      );
+      // @ts-expect-error filters may be partial in safe mode
+      const q: string = filters.q;
+      seen = { filters, q, errors: errors.length };
+      return null;
+    }
+    render(<StrictComp />);
+    expect(seen).toEqual({ filters: { cat: "shoes", page: 1 }, q: undefined, errors: 1 });
+  });
+});
+
+function NamespacedComp({ search }: { search: string }) {
+  const { filters, setFilters } = useFiltersGeneric(
+    numericSchema,
+    () => search,
+    (url) => { (window as any).__pushed = url; },
+    { namespace: "orders", basePath: "/dash" }
+  );
+
+  return (
+    <div>
+      <div data-testid="page">{filters.page ?? ""}</div>
+      <button onClick={() => setFilters({ page: 3 })}>next</button>
+    </div>
+  );
+}
+
+describe("useFiltersGeneric namespace", () => {
+  it("reads and writes only its own keys", () => {
+    render(<NamespacedComp search="?orders.page=2&users.page=5" />);
+    expect(screen.getByTestId("page").textContent).toBe("2");
+    fireEvent.click(screen.getByText("next"));
+    expect((window as any).__pushed).toBe("/dash?users.page=5&orders.page=3");
+  });
+});
+
+function ForeignComp({ search }: { search: string }) {
+  const { setFilters, reset } = useFiltersGeneric(
+    schema,
+    () => search,
+    (url) => { (window as any).__pushed = url; },
+    { basePath: "/list" }
+  );
+
+  return (
+    <div>
+      <button onClick={() => setFilters({ q: "new" })}>set</button>
+      <button onClick={() => reset()}>reset</button>
+    </div>
+  );
+}
+
+describe("useFiltersGeneric foreign params", () => {
+  it("keeps params the schema does not own", () => {
+    render(<ForeignComp search="?utm_source=x&q=old&flag=1" />);
+    fireEvent.click(screen.getByText("set"));
+    expect((window as any).__pushed).toBe("/list?utm_source=x&flag=1&q=new");
+    fireEvent.click(screen.getByText("reset"));
+    expect((window as any).__pushed).toBe("/list?utm_source=x&flag=1");
+  });
+});
+
+function VersionedComp({ search }: { search: string }) {
+  const { filters } = useFiltersGeneric(
+    schema,
+    () => search,
+    (url, navigation) => {
+      (window as any).__pushed = url;
+      (window as any).__history = navigation?.history;
+    },
+    {
+      basePath: "/list",
+      version: {
+        current: 2,
+        migrations: {
+          1: (params) => {
+            params.set("q", params.get("query") ?? "");
+            params.delete("query");
+          },
+        },
+      },
+    }
+  );
+
+  return <div data-testid="q">{filters.q ?? ""}</div>;
+}
+
+describe("useFiltersGeneric versioning", () => {
+  it("replaces outdated URLs with the current version", () => {
+    (window as any).__pushed = undefined;
+    render(<VersionedComp search="?query=old&ref=home" />);
+    expect(screen.getByTestId("q").textContent).toBe("old");
+    expect((window as any).__pushed).toBe("/list?ref=home&q=old&v=2");
+    expect((window as any).__history).toBe("replace");
+  });
+
+  it("leaves current URLs alone", () => {
+    (window as any).__pushed = undefined;
+    render(<VersionedComp search="?q=new&v=2" />);
+    expect((window as any).__pushed).toBeUndefined();
+  });
+
+  it("leaves a bare URL alone when the schema has defaults", () => {
+    const pushed: string[] = [];
+    function DefaultsComp({ search }: { search: string }) {
+      useFiltersGeneric(
+        z.object({ q: z.string().optional(), page: z.number().default(1) }),
+        () => search,
+        (url) => { pushed.push(url); },
+        { basePath: "/list", version: { current: 2 } }
+      );
+      return null;
+    }
+    render(<DefaultsComp search="" />);
+    render(<DefaultsComp search="?page=1&q=old" />);
+    expect(pushed).toEqual(["/list?q=old&v=2"]);
+  });
+});
+
+const pagedSchema = z.object({
+  q: z.string().optional(),
+  page: z.number().default(1),
+});
+
+function PagedComp({ search }: { search: string }) {
+  const { setFilters } = useFiltersGeneric(
+    pagedSchema,
+    () => search,
+    (url) => { (window as any).__pushed = url; },
+    { basePath: "/list", resetPageOnChange: true }
+  );
+
+  return (
+    <div>
+      <button onClick={() => setFilters({ q: "new" })}>search</button>
+      <button onClick={() => setFilters({ q: "old" })}>same</button>
+      <button onClick={() => setFilters({ page: 4 })}>page</button>
+    </div>
+  );
+}
+
+describe("useFiltersGeneric resetPageOnChange", () => {
+  it("resets the page when another filter changes", () => {
+    render(<PagedComp search="?q=old&page=3" />);
+    fireEvent.click(screen.getByText("search"));
+    expect((window as any).__pushed).toBe("/list?q=new");
+    fireEvent.click(screen.getByText("same"));
+    expect((window as any).__pushed).toBe("/list?q=old&page=3");
+    fireEvent.click(screen.getByText("page"));
+    expect((window as any).__pushed).toBe("/list?q=old&page=4");
+  });
+
+  it("compares bigint filters without throwing", () => {
+    const pushed: string[] = [];
+    function BigComp() {
+      const { setFilters } = useFiltersGeneric(
+        z.object({ big: z.bigint().optional(), page: z.number().default(1) }),
+        () => "?big=5&page=3",
+        (url) => { pushed.push(url); },
+        { basePath: "/list", resetPageOnChange: true }
+      );
+      return (
+        <div>
+          <button onClick={() => setFilters({ big: BigInt(5) })}>same big</button>
+          <button onClick={() => setFilters({ big: BigInt(6) })}>new big</button>
+        </div>
+      );
+    }
+    render(<BigComp />);
+    fireEvent.click(screen.getByText("same big"));
+    fireEvent.click(screen.getByText("new big"));
+    expect(pushed).toEqual(["/list?big=5&page=3", "/list?big=6"]);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, afterEach, beforeEach, afterAll, vi } from "vitest";
+import Module from "node:module";
+import { renderHook, act, cleanup } from "@testing-library/react";
+import { z } from "zod";
+import {
+  useNextAppFilters,
+  useNextPagesFilters,
+  useReactRouterFilters,
+} from "../src/react";
+
+const schema = z.object({
+  q: z.string().optional(),
+  status: z.string().optional(),
+});
+
+const push = vi.fn();
+const replace = vi.fn();
+const navigate = vi.fn();
+
+// The adapters load their router with require(), which vi.mock does not reach.
+const modules: Record<string, unknown> = {
+  "next/navigation": {
+    useRouter: () => ({ push, replace }),
+    useSearchParams: () => new URLSearchParams("q=a"),
+  },
+  "next/router": {
+    useRouter: () => ({ push, replace, pathname: "/[section]", asPath: "/list?q=a" }),
+  },
+  "react-router-dom": {
+    useNavigate: () => navigate,
+    useLocation: () => ({ pathname: "/list", search: "?q=a" }),
+  },
+};
+const load = (Module as any)._load;
+(Module as any)._load = (id: string, ...rest: unknown[]) =>
+  id in modules ? modules[id] : load(id, ...rest);
+
+beforeEach(() => {
+  window.history.replaceState(null, "", "/list?q=a");
+  vi.clearAllMocks();
+});
+
+afterEach(cleanup);
+
+afterAll(() => {
+  (Module as any)._load = load;
+});
+
+describe("useNextAppFilters", () => {
+  it("pushes by default and replaces on request", () => {
+    const { result } = renderHook(() => useNextAppFilters(schema));
+    expect(result.current.filters).toEqual({ q: "a" });
+
+    act(() => result.current.setFilters({ status: "open" }));
+    expect(push).toHaveBeenCalledWith("/list?q=a&status=open", { scroll: undefined });
+
+    act(() =>
+      result.current.setFilters(
+        { status: "closed" },
+        { history: "replace", scroll: false, routerOptions: { transition: true } }
+      )
+    );
+    expect(replace).toHaveBeenCalledWith("/list?q=a&status=closed", {
+      scroll: false,
+      transition: true,
+    });
+  });
+});
+
+describe("useNextPagesFilters", () => {
+  it("routes shallowly unless told otherwise", () => {
+    const { result } = renderHook(() => useNextPagesFilters(schema));
+
+    act(() => result.current.setFilters({ status: "open" }));
+    expect(push).toHaveBeenCalledWith("/list?q=a&status=open", undefined, {
+      shallow: true,
+      scroll: undefined,
+    });
+
+    act(() =>
+      result.current.setFilters(
+        { status: "closed" },
+        { history: "replace", shallow: false, scroll: false, routerOptions: { locale: "de" } }
+      )
+    );
+    expect(replace).toHaveBeenCalledWith("/list?q=a&status=closed", undefined, {
+      shallow: false,
+      scroll: false,
+      locale: "de",
+    });
+  });
+});
+
+describe("useReactRouterFilters", () => {
+  it("maps history and scroll onto navigate options", () => {
+    const { result } = renderHook(() =>
+      useReactRouterFilters(schema, { navigation: { scroll: false } })
+    );
+    expect(result.current.filters).toEqual({ q: "a" });
+
+    act(() => result.current.setFilters({ status: "open" }));
+    expect(navigate).toHaveBeenCalledWith("/list?q=a&status=open", {
+      replace: false,
+      preventScrollReset: true,
+    });
+
+    act(() =>
+      result.current.setFilters(
+        { status: "closed" },
+        { history: "replace", scroll: true, routerOptions: { state: { from: "list" } } }
+      )
+    );
+    expect(navigate).toHaveBeenCalledWith("/list?q=a&status=closed", {
+      replace: true,
+      preventScrollReset: undefined,
+      state: { from: "list" },
+    });
+  });
+});
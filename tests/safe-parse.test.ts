@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { safeParseQuery } from "../src/core";
+import { safeGetFiltersFromUrl } from "../src/next";
+
+const schema = z.object({
+  search: z.string().optional(),
+  age: z.number().optional(),
+  page: z.number().int().min(1).default(1),
+  tags: z.array(z.string()).optional(),
+});
+
+describe("safeParseQuery", () => {
+  it("returns data without errors for a valid query", () => {
+    const result = safeParseQuery(schema, "?search=hi&age=30", {
+      coerceTypes: true,
+    });
+    expect(result.data).toEqual({ search: "hi", age: 30, page: 1 });
+    expect(result.errors).toEqual([]);
+    expect(result.droppedKeys).toEqual([]);
+  });
+
+  it("drops invalid keys and keeps valid ones", () => {
+    const result = safeParseQuery(schema, "?search=hi&age=abc", {
+      coerceTypes: true,
+    });
+    expect(result.data).toEqual({ search: "hi", page: 1 });
+    expect(result.droppedKeys).toEqual(["age"]);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].path).toEqual(["age"]);
+  });
+
+  it("falls back to the schema default for invalid keys", () => {
+    const result = safeParseQuery(schema, "?page=0&age=5", {
+      coerceTypes: true,
+    });
+    expect(result.data).toEqual({ page: 1, age: 5 });
+    expect(result.droppedKeys).toEqual(["page"]);
+  });
+
+  it("returns undefined data when a required field is missing", () => {
+    const strict = z.object({ id: z.string() });
+    const result = safeParseQuery(strict, "");
+    expect(result.data).toBeUndefined();
+    expect(result.errors[0].path).toEqual(["id"]);
+    expect(result.droppedKeys).toEqual([]);
+  });
+
+  it("reports each issue once and recovers the valid fields", () => {
+    const strict = schema.extend({ q: z.string() });
+    const result = safeParseQuery(strict, "?page=abc&age=5", { coerceTypes: true });
+    expect(result.data).toBeUndefined();
+    expect(result.droppedKeys).toEqual(["page"]);
+    expect(result.errors.map((issue) => issue.path)).toEqual([["page"], ["q"]]);
+    expect(result.partial).toEqual({ age: 5, page: 1 });
+  });
+
+  it("is available for full URLs", () => {
+    const result = safeGetFiltersFromUrl(
+      schema,
+      "https://example.com/list?age=old&tags=a&tags=b"
+    );
+    expect(result.data).toEqual({ tags: ["a", "b"], page: 1 });
+    expect(result.droppedKeys).toEqual(["age"]);
+  });
+});
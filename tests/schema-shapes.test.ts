@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { buildQuery, parseQuery, safeParseQuery } from "../src/core";
+
+const priceRange = z
+  .object({
+    minPrice: z.number().optional(),
+    maxPrice: z.number().optional(),
+    tags: z.array(z.string()).optional(),
+  })
+  .refine(
+    (v) =>
+      v.minPrice === undefined ||
+      v.maxPrice === undefined ||
+      v.minPrice <= v.maxPrice,
+    { message: "minPrice must not exceed maxPrice", path: ["maxPrice"] }
+  );
+
+const views = z.discriminatedUnion("view", [
+  z.object({
+    view: z.literal("map"),
+    bbox: z.array(z.number()).optional(),
+  }),
+  z.object({
+    view: z.literal("list"),
+    page: z.number().optional(),
+  }),
+]);
+
+describe("top-level schema shapes", () => {
+  it("coerces through refinements", () => {
+    const parsed = parseQuery(priceRange, "minPrice=1&maxPrice=5&tags=a", {
+      coerceTypes: true,
+    });
+    expect(parsed).toEqual({ minPrice: 1, maxPrice: 5, tags: ["a"] });
+  });
+
+  it("applies cross-field rules and recovers in safe mode", () => {
+    expect(() =>
+      parseQuery(priceRange, "minPrice=9&maxPrice=5", { coerceTypes: true })
+    ).toThrow(/minPrice must not exceed maxPrice/);
+    const result = safeParseQuery(priceRange, "minPrice=9&maxPrice=5", {
+      coerceTypes: true,
+    });
+    expect(result.data).toEqual({ minPrice: 9 });
+    expect(result.droppedKeys).toEqual(["maxPrice"]);
+  });
+
+  it("coerces through transforms and superRefine", () => {
+    const schema = z
+      .object({ page: z.number().optional() })
+      .superRefine(() => {})
+      .transform((v) => ({ ...v, loaded: true }));
+    expect(parseQuery(schema, "page=3", { coerceTypes: true })).toEqual({
+      page: 3,
+      loaded: true,
+    });
+  });
+
+  it("merges intersection shapes", () => {
+    const schema = z.intersection(
+      z.object({ page: z.number().optional() }),
+      z.object({ tags: z.array(z.string()).optional() })
+    );
+    const qs = buildQuery(schema, { page: 2, tags: ["a", "b"] }, {
+      arrayFormat: "comma",
+    });
+    expect(qs.toString()).toBe("page=2&tags=a%2Cb");
+    expect(parseQuery(schema, qs, { coerceTypes: true, arrayFormat: "comma" }))
+      .toEqual({ page: 2, tags: ["a", "b"] });
+  });
+
+  it("picks the discriminated union variant from the query", () => {
+    expect(
+      parseQuery(views, "view=map&bbox=1&bbox=2", { coerceTypes: true })
+    ).toEqual({ view: "map", bbox: [1, 2] });
+    expect(
+      parseQuery(views, "view=list&page=4&bbox=1", {
+        coerceTypes: true,
+        stripUnknown: true,
+      })
+    ).toEqual({ view: "list", page: 4 });
+  });
+
+  it("builds only the selected variant's fields", () => {
+    const qs = buildQuery(
+      views,
+      { view: "list", page: 2, bbox: [1] } as any,
+      { stripUnknown: true }
+    );
+    expect(qs.toString()).toBe("view=list&page=2");
+  });
+});
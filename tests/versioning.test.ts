@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import {
+  buildQuery,
+  buildUrl,
+  getQueryVersion,
+  migrateQuery,
+  parseQuery,
+  safeParseQuery,
+} from "../src/core";
+import type { VersionOptions } from "../src/types";
+
+const schema = z.object({
+  search: z.string().optional(),
+  status: z.enum(["open", "closed"]).optional(),
+  price: z.object({ min: z.number().optional(), max: z.number().optional() }).optional(),
+  page: z.number().optional(),
+});
+
+const version: VersionOptions = {
+  current: 3,
+  migrations: {
+    1: (params) => {
+      const q = params.get("q");
+      params.delete("q");
+      if (q !== null) params.set("search", q);
+    },
+    2: (params) => {
+      const next = new URLSearchParams();
+      for (const [k, v] of params) {
+        if (k === "price") {
+          const [min, max] = v.split("-");
+          if (min) next.set("price.min", min);
+          if (max) next.set("price.max", max);
+        } else if (k === "status") {
+          next.set(k, v === "active" ? "open" : v === "archived" ? "closed" : v);
+        } else {
+          next.append(k, v);
+        }
+      }
+      return next;
+    },
+  },
+};
+
+const options = { coerceTypes: true, nestedFormat: "dot" as const, version };
+
+describe("versioning", () => {
+  it("writes the current version when there are params", () => {
+    expect(buildQuery(schema, { page: 2 }, { version }).toString()).toBe("page=2&v=3");
+    expect(buildQuery(schema, {}, { version }).toString()).toBe("");
+  });
+
+  it("supports a custom version param", () => {
+    const custom = { ...version, param: "schema" };
+    expect(buildQuery(schema, { page: 2 }, { version: custom }).toString()).toBe(
+      "page=2&schema=3"
+    );
+    expect(parseQuery(schema, "?page=2&schema=3", { ...options, version: custom })).toEqual({
+      page: 2,
+    });
+  });
+
+  it("treats unversioned URLs as version 1 and runs every migration", () => {
+    expect(
+      parseQuery(schema, "?q=shoes&status=active&price=10-50&page=2", options)
+    ).toEqual({
+      search: "shoes",
+      status: "open",
+      price: { min: 10, max: 50 },
+      page: 2,
+    });
+  });
+
+  it("runs only the migrations newer than the URL version", () => {
+    expect(parseQuery(schema, "?v=2&search=hat&status=archived", options)).toEqual({
+      search: "hat",
+      status: "closed",
+    });
+  });
+
+  it("leaves current URLs untouched", () => {
+    expect(parseQuery(schema, "?v=3&q=ignored&search=hat", options)).toEqual({
+      search: "hat",
+    });
+  });
+
+  it("migrates before validation in safe mode", () => {
+    const result = safeParseQuery(schema, "?v=2&status=active", options);
+    expect(result.data).toEqual({ status: "open" });
+    expect(result.errors).toEqual([]);
+  });
+
+  it("reports the URL version", () => {
+    expect(getQueryVersion("?v=2", { version })).toBe(2);
+    expect(getQueryVersion("?page=1", { version })).toBe(1);
+    expect(getQueryVersion("?v=2", {})).toBeUndefined();
+    expect(getQueryVersion("?orders.v=2", { version, namespace: "orders" })).toBe(2);
+  });
+
+  it("exposes the migrated raw params", () => {
+    expect(migrateQuery("?q=x&utm=1", { version }).toString()).toBe("utm=1&search=x");
+  });
+
+  it("runs migrations on packed params", () => {
+    const url = buildUrl("/list", schema, { search: "a", page: 1 }, { version, pack: true });
+    const query = url.slice(url.indexOf("?"));
+    expect(new URLSearchParams(query).get("v")).toBe("3");
+    expect(parseQuery(schema, query, { ...options, pack: true })).toEqual({
+      search: "a",
+      page: 1,
+    });
+  });
+
+  it("replaces the version param in merge mode", () => {
+    const url = buildUrl("/list?v=2&ref=home&page=1", schema, { page: 2 }, {
+      version,
+      merge: true,
+    });
+    expect(url).toBe("/list?ref=home&page=2&v=3");
+  });
+});
@@ -3,6 +3,17 @@ import { defineConfig } from "vitest/config";
 export default defineConfig({
   test: {
     environment: "jsdom",
-    include: ["tests/**/*.test.ts", "tests/**/*.test.tsx"]
+    include: ["tests/**/*.test.ts", "tests/**/*.test.tsx"],
+    projects: [
+      {
+        extends: true,
+        test: { name: "zod3" }
+      },
+      {
+        extends: true,
+        test: { name: "zod4" },
+        resolve: { alias: { zod: "zod-v4" } }
+      }
+    ]
   }
 });
\ No newline at end of file